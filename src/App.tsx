@@ -1,86 +1,304 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
-import confetti from 'canvas-confetti';
-import { Menu, X, Shuffle, Trash2 } from 'lucide-react';
-
-// Interfaz para definir una opción con su valor e índice
-interface Option {
-  value: string;
-  index: number;
-}
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Menu, X, Shuffle, Trash2, FilePlus, History, Upload, Zap, MonitorUp, Settings, Palette, Volume2, VolumeX, UserX, Lock } from 'lucide-react';
+import type { Option, Entry, SessionSnapshot, DrawRecord, VerifiableSession, VerifiableDraw, Prize, EventSettings, Theme, SoundPreferences, CategoryRules, GameMode, AuditAction, AuditEvent, PublicLock, ScheduledSpin } from './types';
+import { loadSession, saveSession, clearSession } from './lib/sessionStore';
+import { createCryptoRng, randomInt, randomFloat } from './lib/rng';
+import { buildWheelSegments, segmentIndexFor, calculateRotationForSegment, easeOut, segmentUnderPointer, type WheelSegment } from './lib/wheelGeometry';
+import { triggerConfetti } from './lib/celebration';
+import { openPresenterChannel, openAudienceWindow, postPresenterMessage, type AudienceState, type PresenterMessage, type SpinPlan } from './lib/presenter';
+import { parseOptionsText } from './lib/parseClient';
+import { findDuplicates, addEntries, type DuplicateStrategy } from './lib/entries';
+import { currentPrize, isWinningRecord, prizeAssignments } from './lib/prizes';
+import { DEFAULT_GAME_MODE, OUTCOME_MESSAGES, drawOutcome, minimumPool } from './lib/gameModes';
+import { DEFAULT_CATEGORY_RULES, UNCATEGORIZED, countByCategory, eligibleEntries, winnersByCategory } from './lib/categories';
+import { DEFAULT_SETTINGS, effectiveSettings } from './lib/settings';
+import { DEFAULT_THEME, themeStyle } from './lib/theme';
+import { createSoundEngine, DEFAULT_SOUND } from './lib/sound';
+import { createVerifiableSession, appendDraw, hashParticipants } from './lib/verifiable';
+import { applyDraw, drawPool, markDrawAbsent, pickEntry, restoreKnockedOut, undoDraw, type DrawPick, type DrawState } from './lib/drawEngine';
+import { appendAuditEvent, changedKeys, checkPin, createPublicLock } from './lib/audit';
+import { addScheduledSpin, countdownStart, createScheduledSpin, delayUntilNextChange, SKIP_REASON_MESSAGES, type ScheduleSkipReason } from './lib/schedule';
+import HistoryPanel from './components/HistoryPanel';
+import VerifiablePanel from './components/VerifiablePanel';
+import PublicLockPanel from './components/PublicLockPanel';
+import SchedulePanel from './components/SchedulePanel';
+import CountdownOverlay from './components/CountdownOverlay';
+import ImportDialog from './components/ImportDialog';
+import PrizePanel from './components/PrizePanel';
+import CategoryPanel from './components/CategoryPanel';
+import GameModePanel from './components/GameModePanel';
+import PrizeSummary from './components/PrizeSummary';
+import ExpressResultsModal from './components/ExpressResultsModal';
+import SettingsPanel from './components/SettingsPanel';
+import CertificateDialog from './components/CertificateDialog';
+import ThemePanel from './components/ThemePanel';
+import DuplicatesDialog from './components/DuplicatesDialog';
+import OptionList from './components/OptionList';
+import Wheel from './components/Wheel';
+import WheelCenter from './components/WheelCenter';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { useI18n } from './lib/useI18n';
+
+// Generador aleatorio para los giros normales y la animación
+const cryptoRng = createCryptoRng();
+
+// Sonidos de la ruleta, generados en el navegador
+const soundEngine = createSoundEngine();
 
 function App() {
+  const { t, formatNumber, formatDateTime } = useI18n();
   // Estados principales de la aplicación
   const [spinning, setSpinning] = useState(false); // Estado de giro de la ruleta
   const [rotation, setRotation] = useState(0); // Rotación actual de la ruleta
   const [winner, setWinner] = useState<Option | null>(null); // Ganador actual
   const [showWinnerModal, setShowWinnerModal] = useState(false); // Modal del ganador
   const [arrowBounce, setArrowBounce] = useState(false); // Animación de la flecha
-  const [allOptions, setAllOptions] = useState<string[]>([]); // Todas las opciones
-  const [eliminatedOptions, setEliminatedOptions] = useState<string[]>([]); // Opciones eliminadas
+  const [allOptions, setAllOptions] = useState<Entry[]>([]); // Todas las opciones
+  const [eliminatedIds, setEliminatedIds] = useState<string[]>([]); // Identificadores de las opciones eliminadas
   const [optionsInput, setOptionsInput] = useState(''); // Input de nuevas opciones
   const [currentOption, setCurrentOption] = useState(''); // Opción mostrada actualmente
   const [showOptions, setShowOptions] = useState(true); // Mostrar panel de opciones
-  const [optionChangeSpeed, setOptionChangeSpeed] = useState(15); // Velocidad de cambio de opciones (reducida de 30 a 15)
-  const [predefinedWinner, setPredefinedWinner] = useState<string>(''); // Ganador predefinido
+  const [predefinedWinner, setPredefinedWinner] = useState<string>(''); // Identificador del ganador predefinido
   const [showPredefinedSection, setShowPredefinedSection] = useState(false); // Mostrar sección de predefinición
+  const [sessionReady, setSessionReady] = useState(false); // Sesión recuperada o descartada, se puede autoguardar
+  const [pendingSession, setPendingSession] = useState<SessionSnapshot | null>(null); // Sesión guardada pendiente de reanudar
+  const [history, setHistory] = useState<DrawRecord[]>([]); // Historial de giros de la sesión
+  const [showHistory, setShowHistory] = useState(false); // Mostrar panel de historial
+  const [verifiable, setVerifiable] = useState<VerifiableSession | null>(null); // Sorteo verificable en curso
+  const [prizes, setPrizes] = useState<Prize[]>([]); // Catálogo de premios en orden de sorteo
+  const [gameMode, setGameMode] = useState<GameMode>(DEFAULT_GAME_MODE); // Cómo se aplica el resultado de cada giro
+  const [categoryRules, setCategoryRules] = useState<CategoryRules>(DEFAULT_CATEGORY_RULES); // Filtro y cupos por categoría
+  const [expressCount, setExpressCount] = useState(10); // Ganadores por sorteo exprés
+  const [revealOneByOne, setRevealOneByOne] = useState(false); // Revelar el sorteo exprés uno a uno
+  const [expressResults, setExpressResults] = useState<DrawRecord[] | null>(null); // Ganadores del último sorteo exprés
+  const [showImport, setShowImport] = useState(false); // Mostrar diálogo de importación
+  const [parseProgress, setParseProgress] = useState<number | null>(null); // Avance del procesamiento de opciones pegadas
+  const [pendingEntries, setPendingEntries] = useState<{ entries: Entry[]; duplicates: Entry[] } | null>(null); // Participantes nuevos con repetidos por resolver
+  const [wheelSnapshot, setWheelSnapshot] = useState<Entry[] | null>(null); // Opciones dibujadas durante el giro
+  const [settings, setSettings] = useState<EventSettings>(DEFAULT_SETTINGS); // Ajustes del evento
+  const [showSettings, setShowSettings] = useState(false); // Mostrar panel de ajustes
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME); // Marca y aspecto del evento
+  const [showTheme, setShowTheme] = useState(false); // Mostrar editor del tema
+  const [sound, setSound] = useState<SoundPreferences>(DEFAULT_SOUND); // Paquete de sonidos, volumen general y silencio
+  const [spinPlan, setSpinPlan] = useState<SpinPlan | null>(null); // Giro en curso para la pantalla del público
+  const [pendingRedraw, setPendingRedraw] = useState(false); // Volver a girar por un ganador ausente
+  const [showCertificate, setShowCertificate] = useState(false); // Mostrar diálogo del acta
+  const [auditTrail, setAuditTrail] = useState<AuditEvent[]>([]); // Cambios de configuración encadenados por hash
+  const [publicLock, setPublicLock] = useState<PublicLock | null>(null); // Sorteo público bloqueado con PIN
+  const [schedule, setSchedule] = useState<ScheduledSpin[]>([]); // Giros programados en orden
+  const [now, setNow] = useState(Date.now); // Hora del último cambio de la cola: inicio de una cuenta o de un giro
+  const [scheduleSkipped, setScheduleSkipped] = useState<ScheduleSkipReason | null>(null); // Último giro programado que no se pudo hacer
   
   // Referencias para animaciones y sonidos
   const animationRef = useRef<number>();
-  const spinSound = useRef<HTMLAudioElement | null>(null);
-  const winSound = useRef<HTMLAudioElement | null>(null);
-  const optionChangeInterval = useRef<NodeJS.Timeout>();
+  const optionChangeInterval = useRef<number>();
   const optionsBuffer = useRef<string[]>([]);
-  const currentChunkIndex = useRef(0);
+  const presenterChannel = useRef<BroadcastChannel | null>(null);
+  const auditChain = useRef<Promise<AuditEvent[]>>(Promise.resolve([])); // Eventos en orden aunque el hash sea asíncrono
 
   // Constantes optimizadas para mejor rendimiento
-  const CHUNK_SIZE = 1000; // Tamaño de chunk reducido para procesamiento más suave
   const BUFFER_SIZE = 5000; // Tamaño de buffer optimizado
-  const DIVISIONS = 150; // Número de divisiones en la ruleta
-  const SPIN_DURATION = 15000; // Duración del giro en milisegundos
-  const DISPLAY_CHUNK_SIZE = 100; // Tamaño de chunk para mostrar en UI
+  const MAX_LABELLED_SEGMENTS = 60; // Máximo de rebanadas con nombre visible
+  const AUTOSAVE_DELAY = 500; // Espera antes de guardar la sesión tras un cambio
+
+  // Posición de cada opción en la lista completa según su identificador
+  const indexById = useMemo(() => new Map(allOptions.map((entry, i) => [entry.id, i])), [allOptions]);
+  const eliminatedSet = useMemo(() => new Set(eliminatedIds), [eliminatedIds]);
 
   // Obtener opciones disponibles (no eliminadas) - optimizado con useMemo
-  const availableOptions = useMemo(() => {
-    return allOptions.filter(option => !eliminatedOptions.includes(option));
-  }, [allOptions, eliminatedOptions]);
-
-  // Procesamiento optimizado de opciones en chunks con Web Workers
-  const processOptionsInChunks = (options: string[]) => {
-    const processedOptions: string[] = [];
-    for (let i = 0; i < options.length; i += CHUNK_SIZE) {
-      const chunk = options.slice(i, Math.min(i + CHUNK_SIZE, options.length));
-      processedOptions.push(...chunk);
+  const availableEntries = useMemo(() => {
+    return allOptions.filter(option => !eliminatedSet.has(option.id));
+  }, [allOptions, eliminatedSet]);
+  const eliminatedCount = allOptions.length - availableEntries.length;
+  const availableOptions = useMemo(() => availableEntries.map(entry => entry.value), [availableEntries]);
+  const availableWeights = useMemo(() => availableEntries.map(entry => entry.weight), [availableEntries]);
+  const totalAvailableWeight = useMemo(() => availableWeights.reduce((sum, weight) => sum + weight, 0), [availableWeights]);
+
+  // Participantes por categoría y los que entran en el próximo giro según el filtro y los cupos.
+  // El modo verificable sortea sobre la lista congelada, así que ahí no se aplican las reglas.
+  const categoryCounts = useMemo(() => countByCategory(allOptions, eliminatedSet, history), [allOptions, eliminatedSet, history]);
+  const hasCategories = categoryCounts.some(count => count.category !== UNCATEGORIZED);
+  const categoryWinners = useMemo(() => winnersByCategory(history), [history]);
+  const activeCategoryRules = useMemo<CategoryRules>(() => ({
+    ...categoryRules,
+    // Ignorar categorías del filtro que ya no tienen participantes
+    filter: categoryRules.filter.filter(category => categoryCounts.some(count => count.category === category)),
+  }), [categoryRules, categoryCounts]);
+  const drawableEntries = useMemo(() => {
+    return verifiable ? availableEntries : eligibleEntries(availableEntries, activeCategoryRules, categoryWinners);
+  }, [verifiable, availableEntries, activeCategoryRules, categoryWinners]);
+  const drawableOptions = useMemo(() => drawableEntries.map(entry => entry.value), [drawableEntries]);
+
+  // La ruleta mantiene las rebanadas del giro hasta cerrar el modal del ganador
+  const wheelEntries = wheelSnapshot ?? drawableEntries;
+  const wheelSegments = useMemo(() => {
+    return buildWheelSegments(
+      wheelEntries.map(entry => entry.value),
+      wheelEntries.map(entry => entry.weight),
+      MAX_LABELLED_SEGMENTS,
+      settings.divisions
+    );
+  }, [wheelEntries, settings.divisions]);
+
+  // Premio del próximo giro; con el catálogo completo ya no se gira
+  const activePrize = useMemo(() => currentPrize(prizes, history), [prizes, history]);
+  const prizesComplete = prizes.length > 0 && activePrize === null;
+  const lastRecord = history[history.length - 1];
+
+  // Ajustes del próximo giro y del último premio entregado, con los propios del premio encima
+  const spinSettings = useMemo(() => effectiveSettings(settings, activePrize?.prize), [settings, activePrize]);
+  const lastPrizeSettings = useMemo(
+    () => effectiveSettings(settings, prizes.find(prize => prize.id === lastRecord?.prizeId)),
+    [settings, prizes, lastRecord]
+  );
+
+  // Próximo giro programado y si ya empezó su cuenta regresiva
+  const nextSpin = schedule[0];
+  const countdownActive = nextSpin !== undefined && now >= countdownStart(nextSpin);
+
+  // En modo verificable la lista y las reglas quedan congeladas hasta revelar la semilla;
+  // en el sorteo público, hasta desbloquear con el PIN; con un giro programado, desde que empieza la cuenta
+  const listLocked = verifiable !== null || publicLock !== null || countdownActive;
+  const verifiableEnded = verifiable?.revealed ?? false;
+
+  // Estado que se transmite a la pantalla del público; durante el giro la rotación es la final
+  const restingRotation = spinPlan ? spinPlan.to : rotation;
+  const lastOutcome = lastRecord ? drawOutcome(lastRecord) : 'winner';
+  const audienceState = useMemo<AudienceState>(() => ({
+    segments: wheelSegments,
+    showLabels: wheelEntries.length <= MAX_LABELLED_SEGMENTS,
+    rotation: restingRotation,
+    spin: spinPlan,
+    prize: activePrize
+      ? { name: activePrize.prize.name, number: activePrize.winners.length + 1, quantity: activePrize.prize.quantity }
+      : null,
+    winner: showWinnerModal && winner ? winner.value : null,
+    winnerOutcome: lastOutcome,
+    winnerPrize: showWinnerModal ? lastRecord?.prizeName ?? null : null,
+    confettiParticles: lastPrizeSettings.confettiParticles,
+    countdownTo: countdownActive ? nextSpin.at : null,
+    theme,
+  }), [wheelSegments, wheelEntries.length, restingRotation, spinPlan, activePrize, showWinnerModal, winner, lastOutcome, lastRecord, lastPrizeSettings, countdownActive, nextSpin, theme]);
+  const latestAudience = useRef({ state: audienceState, option: currentOption });
+  latestAudience.current = { state: audienceState, option: currentOption };
+
+  // Agregar un evento al registro de auditoría; se encadenan en orden aunque el hash tarde
+  const recordAudit = (action: AuditAction, details?: AuditEvent['details']) => {
+    const chain = auditChain.current.then(trail =>
+      appendAuditEvent(trail, action, details).catch(error => {
+        console.error('No se pudo registrar el evento de auditoría', error);
+        return trail;
+      })
+    );
+    auditChain.current = chain;
+    chain.then(trail => {
+      // Una sesión nueva reemplaza la cadena: los eventos pendientes de la anterior se descartan
+      if (auditChain.current === chain) setAuditTrail(trail);
+    });
+  };
+
+  // Procesamiento de opciones en un Web Worker para no bloquear la interfaz con listas grandes
+  const processOptions = async () => {
+    if (listLocked || parseProgress !== null || optionsInput.trim().length === 0) return;
+    setParseProgress(0);
+    try {
+      const options = await parseOptionsText(optionsInput, setParseProgress);
+      appendEntries(options);
+      setOptionsInput('');
+    } catch (error) {
+      console.error('No se pudieron procesar las opciones', error);
+    } finally {
+      setParseProgress(null);
     }
-    return processedOptions;
   };
 
-  // Procesamiento optimizado de opciones con debouncing
-  const processOptions = () => {
-    const options = optionsInput
-      .split('\n')
-      .map(opt => opt.trim())
-      .filter(opt => opt.length > 0);
-    
-    if (options.length > 0) {
-      // Procesar en chunks más pequeños para mejor rendimiento
-      requestAnimationFrame(() => {
-        const processedOptions = processOptionsInChunks(options);
-        setAllOptions(prev => [...prev, ...processedOptions]);
-        setOptionsInput('');
-        if (availableOptions.length === 0) {
-          setCurrentOption(options[0]);
-        }
-      });
+  // Agregar los participantes importados desde un archivo
+  const importEntries = (entries: Entry[]) => {
+    appendEntries(entries);
+    setShowImport(false);
+  };
+
+  // Agregar participantes nuevos, preguntando antes qué hacer con los repetidos
+  const appendEntries = (entries: Entry[]) => {
+    if (listLocked || entries.length === 0) return;
+    const duplicates = findDuplicates(allOptions, entries);
+    if (duplicates.length > 0) {
+      setPendingEntries({ entries, duplicates });
+    } else {
+      commitEntries(entries, 'keep');
+    }
+  };
+
+  // Incorporar los participantes nuevos a la lista resolviendo los repetidos
+  const commitEntries = (entries: Entry[], strategy: DuplicateStrategy) => {
+    setAllOptions(prev => addEntries(prev, entries, strategy));
+    recordAudit('entriesAdded', { count: entries.length, tickets: entries.reduce((sum, entry) => sum + entry.weight, 0) });
+    if (availableOptions.length === 0) {
+      setCurrentOption(entries[0].value);
     }
+    setPendingEntries(null);
   };
 
   // Limpiar todas las opciones
   const clearAllOptions = () => {
+    if (listLocked) return;
+    recordAudit('entriesCleared', { count: allOptions.length });
     setAllOptions([]);
-    setEliminatedOptions([]);
+    setEliminatedIds([]);
+    setPredefinedWinner('');
     setCurrentOption('');
     optionsBuffer.current = [];
-    currentChunkIndex.current = 0;
+  };
+
+  // Comenzar una sesión nueva descartando la guardada
+  const startNewSession = () => {
+    // Una sesión bloqueada, activa o pendiente de reanudar, solo se descarta después de desbloquearla con el PIN
+    if (publicLock || pendingSession?.publicLock) return;
+    if (allOptions.length > 0 && !window.confirm(t('app.confirmNewSession'))) {
+      return;
+    }
+    setVerifiable(null);
+    setAllOptions([]);
+    setEliminatedIds([]);
+    setCurrentOption('');
+    setWinner(null);
+    setShowWinnerModal(false);
+    setPredefinedWinner('');
+    setHistory([]);
+    setPrizes([]);
+    setGameMode(DEFAULT_GAME_MODE);
+    setCategoryRules(DEFAULT_CATEGORY_RULES);
+    setSchedule([]);
+    setScheduleSkipped(null);
+    auditChain.current = Promise.resolve([]);
+    setAuditTrail([]);
+    setPendingSession(null);
+    clearSession().catch(error => console.error('No se pudo borrar la sesión guardada', error));
+    setSessionReady(true);
+  };
+
+  // Reanudar el sorteo guardado antes de la recarga
+  const resumeSession = () => {
+    if (!pendingSession) return;
+    setAllOptions(pendingSession.allOptions);
+    setEliminatedIds(pendingSession.eliminatedIds);
+    setWinner(pendingSession.winner);
+    setPredefinedWinner(pendingSession.predefinedWinner);
+    setHistory(pendingSession.history ?? []);
+    setVerifiable(pendingSession.verifiable ?? null);
+    setPrizes(pendingSession.prizes ?? []);
+    setGameMode(pendingSession.gameMode);
+    setCategoryRules(pendingSession.categoryRules);
+    auditChain.current = Promise.resolve(pendingSession.auditTrail);
+    setAuditTrail(pendingSession.auditTrail);
+    setPublicLock(pendingSession.publicLock);
+    setSchedule(pendingSession.schedule);
+    setSettings(pendingSession.settings);
+    setTheme(pendingSession.theme);
+    setSound(pendingSession.sound);
+    setCurrentOption(pendingSession.winner?.value ?? pendingSession.allOptions[0]?.value ?? '');
+    setPendingSession(null);
+    setSessionReady(true);
   };
 
   // Iniciar el juego ocultando el panel de opciones
@@ -90,43 +308,137 @@ function App() {
     }
   };
 
-  // Remover una opción específica por índice
-  const removeOption = (index: number) => {
-    setAllOptions(prev => prev.filter((_, i) => i !== index));
+  // Remover una opción específica por identificador
+  const removeOption = (id: string) => {
+    if (listLocked) return;
+    recordAudit('entryRemoved', { name: allOptions[indexById.get(id) ?? -1]?.value ?? '' });
+    setAllOptions(prev => prev.filter(entry => entry.id !== id));
+    setEliminatedIds(prev => prev.filter(eliminatedId => eliminatedId !== id));
+    if (predefinedWinner === id) {
+      setPredefinedWinner('');
+    }
   };
 
   // Restaurar todas las opciones eliminadas
   const restoreEliminatedOptions = () => {
-    setEliminatedOptions([]);
+    if (listLocked) return;
+    recordAudit('eliminatedRestored', { count: eliminatedIds.length });
+    setEliminatedIds([]);
+  };
+
+  // Activar el modo verificable sobre las opciones disponibles
+  const activateVerifiableMode = async () => {
+    if (availableOptions.length === 0 || spinning) return;
+    const session = await createVerifiableSession(availableEntries);
+    setPredefinedWinner('');
+    setVerifiable(session);
+    recordAudit('verifiableActivated', { commitment: session.commitment, listHash: session.listHash });
+  };
+
+  // Terminar el modo verificable revelando la semilla
+  const revealSeed = () => {
+    if (spinning || !window.confirm(t('app.confirmReveal'))) return;
+    setVerifiable(prev => (prev ? { ...prev, revealed: true } : prev));
+    recordAudit('seedRevealed');
+  };
+
+  // Volver al modo normal después de publicar el comprobante
+  const exitVerifiableMode = () => {
+    setVerifiable(null);
+  };
+
+  // Cambiar el catálogo de premios
+  const changePrizes = (next: Prize[]) => {
+    setPrizes(next);
+    recordAudit('prizesChanged', { count: next.length, quantity: next.reduce((sum, prize) => sum + prize.quantity, 0) });
+  };
+
+  // Cambiar los ajustes del evento
+  const changeSettings = (next: EventSettings) => {
+    const fields = changedKeys(settings, next);
+    setSettings(next);
+    if (fields.length > 0) recordAudit('settingsChanged', { fields: fields.join(', ') });
+  };
+
+  // Cambiar los ajustes propios de los premios
+  const changePrizeSettings = (next: Prize[]) => {
+    const fields = next.flatMap(prize => {
+      const before = prizes.find(item => item.id === prize.id)?.settings ?? {};
+      return changedKeys(before, prize.settings ?? {}).map(key => `${prize.name}: ${key}`);
+    });
+    setPrizes(next);
+    if (fields.length > 0) recordAudit('settingsChanged', { fields: fields.join(', ') });
+  };
+
+  // Cambiar el modo de juego
+  const changeGameMode = (mode: GameMode) => {
+    setGameMode(mode);
+    recordAudit('gameModeChanged', { mode });
+  };
+
+  // Cambiar el filtro y los cupos por categoría
+  const changeCategoryRules = (rules: CategoryRules) => {
+    setCategoryRules(rules);
+    recordAudit('categoryRulesChanged', {
+      filter: rules.filter.map(category => category || t('categories.none')).join(', '),
+      quota: rules.maxWinners ?? 0,
+    });
+  };
+
+  // Elegir el ganador predefinido; queda en la auditoría y marcado en el historial si sale
+  const choosePredefinedWinner = (id: string) => {
+    if (publicLock) return;
+    setPredefinedWinner(id);
+    if (id) recordAudit('predefinedWinnerSet', { name: allOptions[indexById.get(id) ?? -1]?.value ?? '' });
+  };
+
+  // Bloquear el sorteo público: se descarta el ganador predefinido y se registra la huella de la lista
+  const lockPublicDraw = async (pin: string) => {
+    if (publicLock || spinning) return;
+    const listHash = await hashParticipants(
+      availableEntries.map(entry => entry.value),
+      availableEntries.map(entry => entry.weight),
+      availableEntries.map(entry => entry.id)
+    );
+    setPublicLock(await createPublicLock(pin));
+    setPredefinedWinner('');
+    setShowPredefinedSection(false);
+    recordAudit('locked', { participants: availableEntries.length, tickets: totalAvailableWeight, listHash });
+  };
+
+  // Desbloquear con el PIN; un PIN incorrecto también queda registrado
+  const unlockPublicDraw = async (pin: string): Promise<boolean> => {
+    if (!publicLock) return true;
+    if (!(await checkPin(publicLock, pin))) {
+      recordAudit('unlockFailed');
+      return false;
+    }
+    setPublicLock(null);
+    recordAudit('unlocked');
+    return true;
   };
 
   // Preparación optimizada del buffer con chunking
   const prepareOptionsBuffer = () => {
     const buffer: string[] = [];
-    const totalOptions = availableOptions.length;
+    const totalOptions = drawableOptions.length;
     if (totalOptions === 0) return;
     
     const bufferSize = Math.min(totalOptions, BUFFER_SIZE);
     
-    // Usar arrays tipados para mejor rendimiento
-    const indices = new Uint32Array(bufferSize);
-    const crypto = window.crypto;
-    crypto.getRandomValues(indices);
-    
     for (let i = 0; i < bufferSize; i++) {
-      const randomIndex = indices[i] % totalOptions;
-      buffer.push(availableOptions[randomIndex]);
+      buffer.push(drawableOptions[randomInt(cryptoRng, totalOptions)]);
     }
     optionsBuffer.current = buffer;
   };
 
   // Cambio optimizado de opciones con RAF (velocidad aumentada)
   const startChangingOptions = () => {
-    if (availableOptions.length === 0) return;
+    if (drawableOptions.length === 0) return;
     
     prepareOptionsBuffer();
     let bufferIndex = 0;
-    let speed = optionChangeSpeed; // Velocidad inicial más rápida (15ms)
+    let speed = spinSettings.optionChangeSpeed; // Velocidad inicial configurable
     let lastTime = performance.now();
 
     const updateOption = (timestamp: number) => {
@@ -142,7 +454,6 @@ function App() {
         // Acelerar gradualmente pero con velocidad inicial más alta
         if (speed < 200) {
           speed += 0.3; // Incremento más suave
-          setOptionChangeSpeed(speed);
         }
         lastTime = timestamp;
       }
@@ -158,31 +469,39 @@ function App() {
     if (optionChangeInterval.current) {
       cancelAnimationFrame(optionChangeInterval.current);
     }
-    setOptionChangeSpeed(15); // Resetear a velocidad inicial más rápida
-  };
-
-  // Función de easing para animación suave
-  const easeOut = (t: number): number => {
-    return 1 - Math.pow(1 - t, 3);
   };
 
-  // Calcular rotación final aleatoria
-  const calculateFinalRotation = () => {
-    const sliceAngle = 360 / DIVISIONS;
-    const randomDivision = Math.floor(Math.random() * DIVISIONS);
-    const targetAngle = 360 - (randomDivision * sliceAngle);
-    const fullSpins = Math.floor(Math.random() * 8) + 15;
-    return fullSpins * 360 + targetAngle;
+  // Calcular la rotación final para que la flecha se detenga en la rebanada del ganador
+  const calculateFinalRotation = (winnerId: string) => {
+    const poolIndex = drawableEntries.findIndex(entry => entry.id === winnerId);
+    const segmentIndex = segmentIndexFor(poolIndex, drawableEntries.length, wheelSegments.length);
+    const fullSpins = randomInt(cryptoRng, 8) + spinSettings.minSpins;
+    // Detenerse en una posición aleatoria lejos de los bordes de la rebanada
+    const offset = 0.1 + randomFloat(cryptoRng) * 0.8;
+    return calculateRotationForSegment(rotation, wheelSegments[segmentIndex], fullSpins, offset);
   };
 
-  // Animar la ruleta con easing
-  const animateWheel = (start: number, end: number, startTime: number, duration: number) => {
+  // Animar la ruleta con easing y un tick cada vez que la flecha pasa a otra rebanada
+  const animateWheel = (
+    start: number,
+    end: number,
+    startTime: number,
+    duration: number,
+    segments: WheelSegment[],
+    tickVolume: number,
+    lastSegment = segmentUnderPointer(segments, start)
+  ) => {
     const now = performance.now();
     const elapsed = now - startTime;
     const progress = Math.min(elapsed / duration, 1);
 
     const easedProgress = easeOut(progress);
     const currentRotation = start + (end - start) * easedProgress;
+
+    const segment = segments.length > 1 ? segmentUnderPointer(segments, currentRotation) : lastSegment;
+    if (segment !== lastSegment) {
+      soundEngine.tick(tickVolume);
+    }
     
     requestAnimationFrame(() => {
       setRotation(currentRotation);
@@ -190,155 +509,175 @@ function App() {
 
     if (progress < 1) {
       animationRef.current = requestAnimationFrame(() => 
-        animateWheel(start, end, startTime, duration)
+        animateWheel(start, end, startTime, duration, segments, tickVolume, segment)
       );
     }
   };
 
-  // Obtener ganador aleatorio o predefinido
-  const getRandomWinner = (): Option | null => {
-    if (availableOptions.length === 0) return null;
-    
-    let winnerValue: string;
-    
-    // Si hay un ganador predefinido y está en las opciones disponibles, usarlo
-    if (predefinedWinner && availableOptions.includes(predefinedWinner)) {
-      winnerValue = predefinedWinner;
-      // Limpiar el ganador predefinido después de usarlo
-      setPredefinedWinner('');
-    } else {
-      // Selección aleatoria normal
-      const index = Math.floor(Math.random() * availableOptions.length);
-      winnerValue = availableOptions[index];
-    }
-    
-    const originalIndex = allOptions.indexOf(winnerValue);
-    return { value: winnerValue, index: originalIndex };
+  // Opción ganadora con su posición en la lista completa
+  const toOption = (entry: Entry): Option => ({
+    id: entry.id,
+    value: entry.value,
+    index: indexById.get(entry.id) ?? -1,
+  });
+
+  // Participante disponible que corresponde a un giro verificable
+  const entryForDraw = (pool: Entry[], draw: VerifiableDraw): Entry | undefined => {
+    // Las sesiones verificables anteriores a los identificadores solo guardan el nombre
+    return draw.winnerId
+      ? pool.find(entry => entry.id === draw.winnerId)
+      : pool.find(entry => entry.value === draw.winner);
   };
 
-  // Activar confetti cuando hay un ganador
-  const triggerConfetti = () => {
-    const count = 400;
-    const defaults = {
-      origin: { y: 0.7 },
-      spread: 90,
-    };
+  // Obtener el ganador derivado de la semilla comprometida y la sesión con el giro agregado.
+  // La sesión se guarda recién junto con el registro del giro, para que el comprobante y el historial coincidan.
+  const getVerifiablePick = async (session: VerifiableSession): Promise<{ pick: DrawPick; session: VerifiableSession } | null> => {
+    const next = await appendDraw(session);
+    const entry = next && entryForDraw(availableEntries, next.winner);
+    if (!next || !entry) return null;
+    return { pick: { entry, predefined: false }, session: next.session };
+  };
 
-    function fire(particleRatio: number, opts: any) {
-      confetti({
-        ...defaults,
-        ...opts,
-        particleCount: Math.floor(count * particleRatio)
-      });
-    }
+  // Estado del sorteo para las reglas del motor; en el sorteo público no hay ganador predefinido
+  const drawState = (): DrawState => ({
+    entries: allOptions,
+    eliminatedIds,
+    history,
+    prizes,
+    gameMode,
+    categoryRules,
+    predefinedWinner: publicLock ? '' : predefinedWinner,
+  });
 
-    // Múltiples explosiones de confetti con diferentes configuraciones
-    fire(0.25, {
-      spread: 26,
-      startVelocity: 55,
-    });
+  // Guardar el estado que dejó el motor después de un giro o una corrección
+  const applyDrawState = (state: DrawState) => {
+    setHistory(state.history);
+    setEliminatedIds(state.eliminatedIds);
+    setPredefinedWinner(state.predefinedWinner);
+  };
 
-    fire(0.2, {
-      spread: 60,
-    });
+  // Sorteo exprés: varios ganadores distintos de una vez, sin animación
+  const expressDraw = async (count: number) => {
+    if (spinning || verifiableEnded || prizesComplete || drawableEntries.length < minimumPool(gameMode)) return;
+    soundEngine.unlock();
 
-    fire(0.35, {
-      spread: 100,
-      decay: 0.91,
-      scalar: 0.8
-    });
+    let state = drawState();
+    let session = verifiable;
+    const records: DrawRecord[] = [];
+    const batchIds = new Set<string>(); // Salidos en esta tanda: aunque el modo los deje participando, no se repiten
 
-    fire(0.1, {
-      spread: 120,
-      startVelocity: 25,
-      decay: 0.92,
-      scalar: 1.2
-    });
+    for (let i = 0; i < count; i++) {
+      // Igual que en un giro normal: sin los que ya salieron y con los cupos de categoría al día
+      const pool = drawPool(state, verifiable !== null).filter(entry => !batchIds.has(entry.id));
+      if (pool.length < minimumPool(gameMode)) break;
+      const prize = currentPrize(state.prizes, state.history)?.prize;
+      if (prizes.length > 0 && !prize) break;
 
-    fire(0.1, {
-      spread: 120,
-      startVelocity: 45,
-    });
+      let pick: DrawPick;
+      if (session) {
+        const next = await appendDraw(session);
+        const entry = next && entryForDraw(pool, next.winner);
+        if (!next || !entry) break;
+        pick = { entry, predefined: false };
+        session = next.session;
+      } else {
+        pick = pickEntry(cryptoRng, pool, gameMode, state.predefinedWinner);
+      }
 
-    // Confetti adicional con delay
-    setTimeout(() => {
-      fire(0.25, {
-        spread: 100,
-        startVelocity: 35,
-        decay: 0.91,
-        scalar: 1.1
-      });
-    }, 200);
+      const step = applyDraw(state, pool, pick, prize);
+      state = step.state;
+      records.push(...step.records);
+      batchIds.add(pick.entry.id);
+      // Con el último en pie termina la ronda
+      if (step.records.some(record => record.survivor)) break;
+    }
+
+    if (records.length === 0) return;
+    const lastRecord = records[records.length - 1];
+    setVerifiable(session);
+    applyDrawState(state);
+    setWinner({ id: lastRecord.winnerId, value: lastRecord.winner, index: lastRecord.originalIndex });
+    // Los nombres no se muestran ni se transmiten al público hasta revelarlos en el modal
+    setCurrentOption('');
+    setExpressResults(records);
   };
 
+  // Celebrar el sorteo exprés recién cuando el modal muestra a todos los ganadores
+  const celebrateExpressDraw = useCallback(() => {
+    if (!expressResults || !lastRecord) return;
+    setCurrentOption(lastRecord.winner);
+    soundEngine.win(lastPrizeSettings.winVolume);
+    if (expressResults.some(isWinningRecord)) triggerConfetti(lastPrizeSettings.confettiParticles);
+  }, [expressResults, lastRecord, lastPrizeSettings]);
+
   // Función principal para girar la ruleta
-  const spinWheel = () => {
-    if (!spinning && availableOptions.length > 0) {
+  const spinWheel = async () => {
+    if (!spinning && !verifiableEnded && !prizesComplete && drawableEntries.length >= minimumPool(gameMode)) {
       setSpinning(true);
       setWinner(null);
       setShowWinnerModal(false);
       setArrowBounce(false);
+      setWheelSnapshot(drawableEntries);
 
-      // Reproducir sonido de giro
-      if (spinSound.current) {
-        spinSound.current.currentTime = 0;
-        spinSound.current.play();
-      }
+      // Ajustes del premio que se sortea en este giro
+      const { spinDuration, spinVolume, winVolume, confettiParticles } = spinSettings;
+
+      // Activar el audio mientras dura el clic del operador
+      soundEngine.unlock();
 
       // Iniciar cambio rápido de opciones
       startChangingOptions();
 
-      // Obtener resultado (aleatorio o predefinido)
-      const result = getRandomWinner();
-      if (result) {
-        const newRotation = calculateFinalRotation();
+      // Obtener resultado (verificable, aleatorio o predefinido)
+      const state = drawState();
+      const pool = drawableEntries;
+      const prize = activePrize?.prize;
+      const verifiableDraw = verifiable ? await getVerifiablePick(verifiable) : null;
+      const pick = verifiable ? verifiableDraw?.pick : pickEntry(cryptoRng, pool, gameMode, state.predefinedWinner);
+      if (!pick) {
+        stopChangingOptions();
+        setWheelSnapshot(null);
+        setSpinning(false);
+      } else {
+        const newRotation = calculateFinalRotation(pick.entry.id);
         
         if (animationRef.current) {
           cancelAnimationFrame(animationRef.current);
         }
         
         // Animar la ruleta
-        animateWheel(rotation, newRotation, performance.now(), SPIN_DURATION);
+        animateWheel(rotation, newRotation, performance.now(), spinDuration, wheelSegments, spinVolume);
+        setSpinPlan({ from: rotation, to: newRotation, startedAt: Date.now(), duration: spinDuration });
 
         // Finalizar después de la duración del giro
         setTimeout(() => {
-          if (spinSound.current) {
-            spinSound.current.pause();
-          }
-
           stopChangingOptions();
-          setCurrentOption(result.value);
-          setWinner(result);
-          
-          // Eliminar automáticamente al ganador
-          setEliminatedOptions(prev => [...prev, result.value]);
-          
+
+          // Registrar el giro y sacar de la ruleta a quien corresponda según el modo de juego;
+          // en último en pie se muestra al sobreviviente cuando la flecha deja a uno solo
+          const step = applyDraw(state, pool, pick, prize);
+          applyDrawState(step.state);
+          if (verifiableDraw) setVerifiable(verifiableDraw.session);
+          const shown = toOption(step.winner);
+          setCurrentOption(shown.value);
+          setWinner(shown);
+
           setShowWinnerModal(true);
-          if (winSound.current) {
-            winSound.current.currentTime = 0;
-            winSound.current.play();
-          }
-          triggerConfetti();
+          soundEngine.win(winVolume);
+          if (step.records.some(isWinningRecord)) triggerConfetti(confettiParticles);
+          setSpinPlan(null);
           setSpinning(false);
-        }, SPIN_DURATION);
+        }, spinDuration);
       }
     }
   };
 
-  // Inicialización de sonidos y limpieza
-  useEffect(() => {
-    // Sonidos mejorados
-    spinSound.current = new Audio('https://www.soundjay.com/misc/sounds/casino-wheel.wav');
-    winSound.current = new Audio('https://assets.mixkit.co/active_storage/sfx/1435/1435-preview.mp3');
-    
-    if (spinSound.current) {
-      spinSound.current.volume = 0.3;
-      spinSound.current.loop = true;
-    }
-    if (winSound.current) {
-      winSound.current.volume = 0.3;
-    }
+  // Versión de spinWheel del último render, para girar desde efectos con el estado al día
+  const latestSpinWheel = useRef(spinWheel);
+  latestSpinWheel.current = spinWheel;
 
+  // Limpieza de animaciones
+  useEffect(() => {
     // Limpieza al desmontar el componente
     return () => {
       if (animationRef.current) {
@@ -348,23 +687,188 @@ function App() {
     };
   }, []);
 
-  // Lista de opciones memoizada para mejor rendimiento
-  const displayOptions = useMemo(() => {
-    return allOptions.slice(0, DISPLAY_CHUNK_SIZE).map((option, index) => (
-      <div key={index} className={`flex items-center justify-between py-2 border-b ${eliminatedOptions.includes(option) ? 'opacity-50 line-through' : ''}`}>
-        <span>{option}</span>
-        <button
-          onClick={() => removeOption(index)}
-          className="text-red-500 hover:text-red-700"
-        >
-          <X size={20} />
-        </button>
-      </div>
-    ));
-  }, [allOptions, eliminatedOptions]);
+  // Cerrar el modal del ganador y redibujar la ruleta sin los eliminados
+  const closeWinnerModal = () => {
+    setShowWinnerModal(false);
+    setWheelSnapshot(null);
+  };
+
+  // Marcar un giro como ausente: el participante sigue excluido y su premio vuelve a sortearse
+  const markAbsent = (sequence: number) => {
+    const record = history.find(item => item.sequence === sequence);
+    if (!record) return;
+    recordAudit('absentMarked', { name: record.winner });
+    applyDrawState(markDrawAbsent(drawState(), sequence));
+  };
+
+  // El ganador mostrado no está en la sala: marcarlo ausente y girar otra vez por el mismo premio
+  const redrawAbsentWinner = () => {
+    if (!lastRecord) return;
+    markAbsent(lastRecord.sequence);
+    closeWinnerModal();
+    setPendingRedraw(true);
+  };
+
+  // Girar recién cuando el historial ya refleja al ausente, para que el premio sea el mismo
+  useEffect(() => {
+    if (!pendingRedraw) return;
+    setPendingRedraw(false);
+    latestSpinWheel.current();
+  }, [pendingRedraw]);
+
+  // Programar un giro; la cola queda ordenada por hora
+  const scheduleSpin = (at: number, countdown: number) => {
+    setSchedule(prev => addScheduledSpin(prev, createScheduledSpin(at, countdown)));
+  };
+
+  // Quitar un giro de la cola; si estaba en cuenta regresiva, la lista se desbloquea
+  const cancelScheduledSpin = (id: string) => {
+    setSchedule(prev => prev.filter(spin => spin.id !== id));
+  };
+
+  // Despertar al empezar la cuenta regresiva del próximo giro y otra vez a su hora.
+  // El plazo se cuenta desde `now`: si el giro se programó con la cuenta ya empezada, se despierta enseguida.
+  useEffect(() => {
+    if (!nextSpin) return;
+    const delay = Math.max(0, now + delayUntilNextChange(nextSpin, now) - Date.now());
+    const timeout = window.setTimeout(() => setNow(Date.now()), delay);
+    return () => window.clearTimeout(timeout);
+  }, [nextSpin, now]);
+
+  // Hacer el giro programado y sacarlo de la cola.
+  // Si no se puede girar, sale igual de la cola con un aviso al operador y queda en la auditoría.
+  const runScheduledSpin = (spin: ScheduledSpin) => {
+    setSchedule(prev => prev.filter(item => item.id !== spin.id));
+    const at = new Date(spin.at).toISOString();
+    const reason: ScheduleSkipReason | null = verifiableEnded
+      ? 'seedRevealed'
+      : prizesComplete
+        ? 'prizesComplete'
+        : drawableEntries.length < minimumPool(gameMode)
+          ? 'notEnoughParticipants'
+          : null;
+    setScheduleSkipped(reason);
+    if (reason) {
+      recordAudit('scheduledSpinSkipped', { at, reason });
+      return;
+    }
+    recordAudit('scheduledSpinRun', { at, participants: drawableEntries.length });
+    spinWheel();
+  };
+  const latestRunScheduledSpin = useRef(runScheduledSpin);
+  latestRunScheduledSpin.current = runScheduledSpin;
+
+  // Llegada la hora, girar con el estado al día; si la ruleta está girando, se espera a que termine
+  useEffect(() => {
+    if (!nextSpin || now < nextSpin.at || spinning) return;
+    latestRunScheduledSpin.current(nextSpin);
+  }, [nextSpin, now, spinning]);
+
+  // Deshacer el último giro; los verificables ya son parte del comprobante
+  const undoLastDraw = () => {
+    if (spinning || verifiable || publicLock) return;
+    const result = undoDraw(drawState());
+    if (!result) return;
+    const { undone } = result;
+    if (!window.confirm(t('app.confirmUndo', { name: undone[0].winner }))) return;
+    recordAudit('drawUndone', { name: undone.map(record => record.winner).join(', ') });
+    applyDrawState(result.state);
+    setWinner(null);
+    setShowWinnerModal(false);
+    setWheelSnapshot(null);
+    setExpressResults(null);
+    setCurrentOption(undone[0].winner);
+  };
+
+  // Nueva ronda de último en pie: vuelven los que dejó fuera la flecha.
+  // El sorteo verificable no tiene rondas: su semilla ya descartó a todos los que salieron.
+  const startNewRound = () => {
+    if (verifiable) return;
+    applyDrawState(restoreKnockedOut(drawState()));
+    setWinner(null);
+    setCurrentOption('');
+  };
+
+  // Canal con la pantalla del público: responde con el estado actual cuando se abre
+  useEffect(() => {
+    const channel = openPresenterChannel();
+    if (!channel) return;
+    presenterChannel.current = channel;
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      if (event.data.type !== 'hello') return;
+      postPresenterMessage(channel, { type: 'state', state: latestAudience.current.state });
+      postPresenterMessage(channel, { type: 'option', option: latestAudience.current.option });
+    };
+    return () => {
+      presenterChannel.current = null;
+      channel.close();
+    };
+  }, []);
+
+  // Transmitir los cambios a la pantalla del público
+  useEffect(() => {
+    postPresenterMessage(presenterChannel.current, { type: 'state', state: audienceState });
+  }, [audienceState]);
+
+  useEffect(() => {
+    postPresenterMessage(presenterChannel.current, { type: 'option', option: currentOption });
+  }, [currentOption]);
+
+  // Buscar una sesión guardada al iniciar
+  useEffect(() => {
+    loadSession()
+      .then(snapshot => {
+        if (snapshot && snapshot.allOptions.length > 0) {
+          setPendingSession(snapshot);
+        } else {
+          setSessionReady(true);
+        }
+      })
+      .catch(error => {
+        console.error('No se pudo cargar la sesión guardada', error);
+        setSessionReady(true);
+      });
+  }, []);
+
+  // Autoguardado de la sesión después de cada cambio
+  useEffect(() => {
+    if (!sessionReady) return;
+    const timeout = window.setTimeout(() => {
+      saveSession({
+        version: 1,
+        savedAt: Date.now(),
+        allOptions,
+        eliminatedIds,
+        winner,
+        predefinedWinner,
+        history,
+        verifiable,
+        prizes,
+        gameMode,
+        categoryRules,
+        auditTrail,
+        publicLock,
+        schedule,
+        settings,
+        theme,
+        sound,
+      }).catch(error => console.error('No se pudo guardar la sesión', error));
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [sessionReady, allOptions, eliminatedIds, winner, predefinedWinner, history, verifiable, prizes, gameMode, categoryRules, auditTrail, publicLock, schedule, settings, theme, sound]);
+
+  // Aplicar paquete, volumen general y silencio al motor de sonido
+  useEffect(() => {
+    soundEngine.configure(sound);
+  }, [sound]);
+
+  // Título de la pestaña según el tema
+  useEffect(() => {
+    document.title = theme.title;
+  }, [theme.title]);
 
   return (
-    <div className="min-h-screen bg-[url('/images/fondo1.jpg')] bg-contain bg-no-repeat bg-center p-4">
+    <div className="min-h-screen bg-contain bg-no-repeat bg-center p-4" style={themeStyle(theme)}>
       {/* Botón del menú */}
       <button
         onClick={() => setShowOptions(!showOptions)}
@@ -373,9 +877,39 @@ function App() {
         <Menu size={24} />
       </button>
 
+      {/* Botón del historial */}
+      <button
+        onClick={() => setShowHistory(true)}
+        className="fixed top-4 right-4 z-30 bg-white p-2 rounded-full shadow-lg hover:bg-gray-100"
+        title={t('history.title')}
+      >
+        <History size={24} />
+      </button>
+
+      {/* Botón para silenciar los sonidos */}
+      <button
+        onClick={() => setSound(prev => ({ ...prev, muted: !prev.muted }))}
+        className="fixed top-4 right-28 z-30 bg-white p-2 rounded-full shadow-lg hover:bg-gray-100"
+        title={sound.muted ? t('app.unmute') : t('app.mute')}
+      >
+        {sound.muted ? <VolumeX size={24} /> : <Volume2 size={24} />}
+      </button>
+
+      {/* Botón para abrir la pantalla del público */}
+      <button
+        onClick={openAudienceWindow}
+        className="fixed top-4 right-16 z-30 bg-white p-2 rounded-full shadow-lg hover:bg-gray-100"
+        title={t('app.openAudience')}
+      >
+        <MonitorUp size={24} />
+      </button>
+
+      {/* Selector de idioma */}
+      <LanguageSwitcher className="fixed top-4 right-40 z-30" />
+
       {/* Título principal */}
      <h1 className="text-4xl font-extrabold text-center mb-8 text-shadow-lg bg-clip-text text-transparent bg-gradient-to-r from-green-700 to-green-500">
-        RULETA 
+        {theme.title}
       </h1>
 
       <div className="flex justify-center gap-8">
@@ -383,21 +917,50 @@ function App() {
         {showOptions && (
           <div className="w-96 bg-white p-6 rounded-lg shadow-lg h-fit">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-2xl font-bold text-green-800">Opciones</h2>
+              <h2 className="text-2xl font-bold text-green-800">{t('app.options')}</h2>
               <div className="flex gap-2">
                 {/* Botón para predefinir ganador */}
+                {!listLocked && (
+                  <button
+                    onClick={() => setShowPredefinedSection(!showPredefinedSection)}
+                    className={`p-2 rounded ${showPredefinedSection ? 'bg-purple-100 text-purple-600' : 'text-gray-500 hover:text-gray-700'}`}
+                    title={t('app.predefine')}
+                  >
+                    🎯
+                  </button>
+                )}
+                {/* Botón de ajustes del evento */}
+                <button
+                  onClick={() => setShowSettings(true)}
+                  disabled={spinning}
+                  className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                  title={t('settings.title')}
+                >
+                  <Settings size={20} />
+                </button>
+                {/* Botón del tema y la marca */}
+                <button
+                  onClick={() => setShowTheme(true)}
+                  className="text-gray-500 hover:text-gray-700"
+                  title={t('theme.title')}
+                >
+                  <Palette size={20} />
+                </button>
+                {/* Botón para comenzar una sesión nueva */}
                 <button
-                  onClick={() => setShowPredefinedSection(!showPredefinedSection)}
-                  className={`p-2 rounded ${showPredefinedSection ? 'bg-purple-100 text-purple-600' : 'text-gray-500 hover:text-gray-700'}`}
-                  title="Predefinir ganador"
+                  onClick={startNewSession}
+                  disabled={publicLock !== null}
+                  className="text-gray-500 hover:text-gray-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                  title={t('app.newSession')}
                 >
-                  🎯
+                  <FilePlus size={20} />
                 </button>
                 {/* Botón para limpiar opciones */}
                 <button
                   onClick={clearAllOptions}
-                  className="text-red-500 hover:text-red-700"
-                  title="Eliminar todas las opciones"
+                  disabled={listLocked}
+                  className="text-red-500 hover:text-red-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                  title={t('app.clearOptions')}
                 >
                   <Trash2 size={20} />
                 </button>
@@ -414,46 +977,111 @@ function App() {
             {/* Área de texto para ingresar opciones */}
             <textarea
               value={optionsInput}
+              disabled={listLocked}
               onChange={(e) => setOptionsInput(e.target.value)}
-              placeholder="Ingresa múltiples opciones (una por línea)"
+              placeholder={t('app.inputPlaceholder')}
               className="w-full h-32 p-2 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-green-500"
             />
             
             {/* Botón para agregar opciones */}
             <button
               onClick={processOptions}
-              className="button-29 w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors mb-4 flex items-center justify-center gap-2"
+              disabled={listLocked || parseProgress !== null}
+              className="button-29 w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors mb-4 flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
               <Shuffle size={20} />
-              Agregar opciones
+              {parseProgress !== null
+                ? t('app.processing', { percent: formatNumber(parseProgress, { style: 'percent' }) })
+                : t('app.addOptions')}
+            </button>
+
+            {/* Barra de avance mientras se procesan las opciones */}
+            {parseProgress !== null && (
+              <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden -mt-2 mb-4">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${Math.round(parseProgress * 100)}%` }}
+                />
+              </div>
+            )}
+
+            {/* Botón para importar desde CSV o Excel */}
+            <button
+              onClick={() => setShowImport(true)}
+              disabled={listLocked}
+              className="w-full py-2 bg-white text-blue-700 border border-blue-600 rounded-lg hover:bg-blue-50 transition-colors mb-4 flex items-center justify-center gap-2 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed"
+            >
+              <Upload size={20} />
+              {t('app.importFile')}
             </button>
             
+            {/* Catálogo de premios */}
+            <GameModePanel
+              mode={gameMode}
+              disabled={spinning || publicLock !== null}
+              verifiable={verifiable !== null}
+              onChange={changeGameMode}
+            />
+
+            <PrizePanel prizes={prizes} history={history} locked={publicLock !== null} onChange={changePrizes} />
+
+            {/* Filtro y cupos por sucursal o grupo */}
+            {hasCategories && (
+              <CategoryPanel
+                counts={categoryCounts}
+                rules={activeCategoryRules}
+                disabled={spinning || publicLock !== null}
+                ignored={verifiable !== null}
+                onChange={changeCategoryRules}
+              />
+            )}
+
+            {/* Sección del sorteo verificable */}
+            <VerifiablePanel
+              verifiable={verifiable}
+              canActivate={availableOptions.length > 0 && !spinning && gameMode !== 'keepWinner'}
+              onActivate={activateVerifiableMode}
+              onReveal={revealSeed}
+              onExit={exitVerifiableMode}
+            />
+
+            {/* Sorteo público bloqueado con PIN */}
+            <PublicLockPanel
+              lock={publicLock}
+              canLock={allOptions.length > 0 && !spinning}
+              onLock={lockPublicDraw}
+              onUnlock={unlockPublicDraw}
+            />
+
+            {/* Giros programados con cuenta regresiva */}
+            <SchedulePanel schedule={schedule} onAdd={scheduleSpin} onRemove={cancelScheduledSpin} />
+
             {/* Sección de ganador predefinido */}
-            {showPredefinedSection && (
+            {showPredefinedSection && !listLocked && (
               <div className="mb-4 p-4 bg-purple-50 rounded-lg border border-purple-200">
-                <h3 className="text-lg font-semibold text-purple-800 mb-2">🎯 Predefinir Ganador</h3>
+                <h3 className="text-lg font-semibold text-purple-800 mb-2">{t('app.predefineTitle')}</h3>
                 <select
                   value={predefinedWinner}
-                  onChange={(e) => setPredefinedWinner(e.target.value)}
+                  onChange={(e) => choosePredefinedWinner(e.target.value)}
                   className="w-full p-2 border rounded-lg mb-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
                 >
-                  <option value="">Seleccionar ganador predefinido...</option>
-                  {availableOptions.map((option, index) => (
-                    <option key={index} value={option}>
-                      {option}
+                  <option value="">{t('app.predefinePlaceholder')}</option>
+                  {drawableEntries.map(entry => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.value}{entry.memberId ? ` (#${entry.memberId})` : ''}
                     </option>
                   ))}
                 </select>
                 {predefinedWinner && (
                   <div className="flex items-center justify-between">
                     <p className="text-sm text-purple-600">
-                      Ganador predefinido: <strong>{predefinedWinner}</strong>
+                      {t('app.predefined')} <strong>{allOptions[indexById.get(predefinedWinner) ?? -1]?.value}</strong>
                     </p>
                     <button
                       onClick={() => setPredefinedWinner('')}
                       className="text-sm bg-red-500 text-white px-2 py-1 rounded hover:bg-red-600"
                     >
-                      Cancelar
+                      {t('common.cancel')}
                     </button>
                   </div>
                 )}
@@ -464,24 +1092,32 @@ function App() {
             <div className="mt-4">
               <div className="flex justify-between items-center mb-2">
                 <h3 className="text-lg font-semibold">
-                  Opciones disponibles: {availableOptions.length}
+                  {t('app.available', { count: availableOptions.length })}
                 </h3>
-                {eliminatedOptions.length > 0 && (
+                {eliminatedCount > 0 && !listLocked && (
                   <button
                     onClick={restoreEliminatedOptions}
                     className="text-sm bg-blue-500 text-white px-2 py-1 rounded hover:bg-blue-600"
                   >
-                    Restaurar eliminados
+                    {t('app.restoreEliminated')}
                   </button>
                 )}
               </div>
               <p className="text-sm text-gray-600 mb-2">
-                Total: {allOptions.length} | Eliminados: {eliminatedOptions.length}
+                {gameMode === 'keepWinner'
+                  ? t('app.totalsKeep', { total: allOptions.length, winners: history.filter(isWinningRecord).length, tickets: totalAvailableWeight })
+                  : gameMode === 'lastStanding'
+                    ? t('app.totalsLastStanding', { total: allOptions.length, eliminated: eliminatedCount, remaining: drawableEntries.length })
+                    : t('app.totals', { total: allOptions.length, eliminated: eliminatedCount, tickets: totalAvailableWeight })}
               </p>
-              {/* Lista scrolleable de opciones */}
-              <div className="max-h-48 overflow-y-auto">
-                {displayOptions}
-              </div>
+              {/* Lista virtualizada de opciones */}
+              <OptionList
+                options={allOptions}
+                eliminated={eliminatedSet}
+                totalWeight={totalAvailableWeight}
+                locked={listLocked}
+                onRemove={removeOption}
+              />
             </div>
 
             {/* Botón para comenzar */}
@@ -490,13 +1126,38 @@ function App() {
               disabled={availableOptions.length === 0}
               className="button-29 w-full py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors mt-4 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
-              Comenzar
+              {t('app.start')}
             </button>
           </div>
         )}
 
         {/* Área principal de la ruleta */}
         <div className="flex flex-col items-center">
+          {/* Aviso de sorteo público bloqueado */}
+          {publicLock && (
+            <div className="mb-3 flex items-center gap-2 bg-rose-600 text-white px-4 py-1 rounded-full shadow font-semibold">
+              <Lock size={16} />
+              {t('publicLock.badge')}
+            </div>
+          )}
+
+          {/* Giro programado que no se pudo hacer */}
+          {scheduleSkipped && (
+            <div className="mb-3 flex items-center gap-2 bg-red-600 text-white px-4 py-1 rounded-full shadow font-semibold">
+              {t('schedule.skipped', { reason: t(SKIP_REASON_MESSAGES[scheduleSkipped]) })}
+              <button onClick={() => setScheduleSkipped(null)} title={t('common.close')}>
+                <X size={16} />
+              </button>
+            </div>
+          )}
+
+          {/* Premio que se está sorteando */}
+          {activePrize && (
+            <div className="mb-3 text-center bg-amber-400 text-amber-950 px-4 py-1 rounded-full shadow font-semibold">
+              {t('wheel.prize', { name: activePrize.prize.name, number: activePrize.winners.length + 1, quantity: activePrize.prize.quantity })}
+            </div>
+          )}
+
           {/* Cuadro de opción actual (velocidad aumentada) */}
           {currentOption && (
              <div className="mb-9 text-center option-display px-4 py-2 rounded-xl">
@@ -506,64 +1167,267 @@ function App() {
 
           {/* Ruleta */}
           <div className="relative">
-            <div
-              className="w-[560px] h-[560px] rounded-full wheel-gradient wheel-shadow relative transform transition-transform duration-100"
-              style={{ transform: `rotate(${rotation}deg)` }}
+            <Wheel
+              segments={wheelSegments}
+              rotation={rotation}
+              showLabels={wheelEntries.length <= MAX_LABELLED_SEGMENTS}
+              palette={theme.palette}
+              onCenterClick={!spinning && !verifiableEnded && !prizesComplete ? spinWheel : undefined}
             >
-              {/* Círculo central con texto COPEBA, R.L. */}
-              <div className="absolute inset-1/3 center-circle rounded-full flex items-center justify-center cursor-pointer"
-                   onClick={!spinning ? spinWheel : undefined}>
-                <div className="center-logo">
-                  <span className="text-lg font-bold text-green-800">COPEBA, R.L.</span>
-                </div>
-              </div>
-            </div>
+              {/* Círculo central con el logo o el texto del tema */}
+              <WheelCenter theme={theme} />
+            </Wheel>
             
             {/* Flecha indicadora */}
             <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-7">
               <div className={`arrow ${arrowBounce ? 'animate-bounce' : ''}`} />
             </div>
+
+            {/* Cuenta regresiva del próximo giro programado */}
+            {countdownActive && <CountdownOverlay target={nextSpin.at} />}
           </div>
 
           {/* Botón de girar (sin indicadores de ganador predefinido) */}
           <button
             onClick={spinWheel}
-            disabled={spinning || availableOptions.length === 0}
+            disabled={spinning || verifiableEnded || prizesComplete || drawableEntries.length < minimumPool(gameMode)}
             className="mt-8 px-8 py-4 bg-green-600 text-white rounded-full font-bold text-xl shadow-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
           >
-            {spinning ? '¡Girando!' : 'Girar Ruleta'}
+            {spinning ? t('app.spinning') : t('app.spin')}
           </button>
 
+          {/* Participantes que siguen en pie en la ronda */}
+          {gameMode === 'lastStanding' && drawableEntries.length >= minimumPool(gameMode) && (
+            <p className="mt-2 text-sm font-semibold text-sky-900 bg-white bg-opacity-90 rounded-full px-4 py-1">
+              {t('gameMode.remaining', { count: drawableEntries.length })}
+            </p>
+          )}
+
+          {/* Quedan participantes pero ninguno cumple el filtro o los cupos */}
+          {drawableEntries.length === 0 && availableEntries.length > 0 && (
+            <p className="mt-2 text-sm font-semibold text-red-600 bg-white bg-opacity-90 rounded-full px-4 py-1">
+              {t('categories.noneEligible')}
+            </p>
+          )}
+
+          {/* Sorteo exprés de varios ganadores sin animación */}
+          <div className="mt-4 flex items-center gap-2 bg-white bg-opacity-90 rounded-full px-4 py-2 shadow">
+            <input
+              type="number"
+              min={1}
+              max={drawableEntries.length || 1}
+              value={expressCount}
+              onChange={(e) => setExpressCount(Math.max(1, Number(e.target.value) || 1))}
+              className="w-20 p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+              title={t('app.expressCount')}
+            />
+            <button
+              onClick={() => expressDraw(expressCount)}
+              disabled={spinning || verifiableEnded || prizesComplete || drawableEntries.length < minimumPool(gameMode)}
+              className="px-4 py-1 bg-amber-500 text-white rounded-full font-semibold hover:bg-amber-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+            >
+              <Zap size={18} />
+              {t('app.express')}
+            </button>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={revealOneByOne}
+                onChange={(e) => setRevealOneByOne(e.target.checked)}
+              />
+              {t('app.revealOneByOne')}
+            </label>
+          </div>
+
+          {/* Compromiso público del sorteo verificable */}
+          {verifiable && (
+            <div className="mt-4 max-w-xl text-center bg-white bg-opacity-90 rounded-lg px-4 py-2 shadow">
+              <p className="text-xs text-emerald-800 font-semibold">
+                {verifiable.revealed ? t('app.seedRevealed') : t('app.commitment')}
+              </p>
+              <p className="text-xs font-mono break-all">
+                {verifiable.revealed ? verifiable.seed : verifiable.commitment}
+              </p>
+            </div>
+          )}
+
+          {/* Asignación final de premios */}
+          {prizesComplete && !spinning && (
+            <PrizeSummary assignments={prizeAssignments(prizes, history)} />
+          )}
+
+          {/* Fin de la ronda de último en pie */}
+          {gameMode === 'lastStanding' && lastRecord?.survivor && drawableEntries.length < minimumPool(gameMode) && !spinning && (
+            <div className="mt-4 text-center bg-white bg-opacity-90 rounded-lg px-4 py-2 shadow">
+              <p className="text-green-700 font-bold">{t('gameMode.roundOver', { name: lastRecord.winner })}</p>
+              {verifiable ? (
+                <p className="text-sm text-gray-600 mt-1">{t('gameMode.noRoundsVerifiable')}</p>
+              ) : (
+                <button
+                  onClick={startNewRound}
+                  className="mt-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+                >
+                  {t('gameMode.newRound')}
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Mensaje cuando no hay opciones disponibles */}
-          {availableOptions.length === 0 && allOptions.length > 0 && (
+          {availableOptions.length === 0 && allOptions.length > 0 && !listLocked && !(gameMode === 'lastStanding' && lastRecord?.survivor) && (
             <div className="mt-4 text-center">
-              <p className="text-red-600 font-bold">¡Todas las opciones han sido eliminadas!</p>
+              <p className="text-red-600 font-bold">{t('app.allEliminated')}</p>
               <button
                 onClick={restoreEliminatedOptions}
                 className="mt-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
               >
-                Restaurar todas las opciones
+                {t('app.restoreAll')}
               </button>
             </div>
           )}
         </div>
       </div>
 
+      {/* Resultados del sorteo exprés */}
+      {expressResults && (
+        <ExpressResultsModal
+          records={expressResults}
+          revealOneByOne={revealOneByOne}
+          onRevealed={celebrateExpressDraw}
+          onClose={() => setExpressResults(null)}
+        />
+      )}
+
+      {/* Decisión sobre participantes repetidos */}
+      {pendingEntries && (
+        <DuplicatesDialog
+          duplicates={pendingEntries.duplicates}
+          total={pendingEntries.entries.length}
+          onResolve={(strategy) => commitEntries(pendingEntries.entries, strategy)}
+          onCancel={() => setPendingEntries(null)}
+        />
+      )}
+
+      {/* Diálogo de importación de participantes */}
+      {showImport && (
+        <ImportDialog onImport={importEntries} onClose={() => setShowImport(false)} />
+      )}
+
+      {/* Ajustes del evento y de cada premio */}
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          prizes={prizes}
+          onChange={changeSettings}
+          onPrizesChange={changePrizeSettings}
+          sound={sound}
+          onSoundChange={setSound}
+          onPreviewSound={() => soundEngine.win(spinSettings.winVolume)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Editor del tema */}
+      {showTheme && (
+        <ThemePanel theme={theme} onChange={setTheme} onClose={() => setShowTheme(false)} />
+      )}
+
+      {/* Panel del historial de giros */}
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onMarkAbsent={spinning ? undefined : markAbsent}
+          onUndo={spinning || verifiable || publicLock ? undefined : undoLastDraw}
+          onCertificate={() => setShowCertificate(true)}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Acta del sorteo para imprimir y firmar */}
+      {showCertificate && (
+        <CertificateDialog
+          title={theme.title}
+          entries={allOptions}
+          prizes={prizes}
+          history={history}
+          verifiable={verifiable}
+          auditTrail={auditTrail}
+          publicLock={publicLock}
+          onClose={() => setShowCertificate(false)}
+        />
+      )}
+
+      {/* Modal para reanudar la sesión guardada */}
+      {pendingSession && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-8 rounded-lg shadow-xl animate-bounce-in max-w-md">
+            <h2 className="text-2xl font-bold text-green-800 mb-4">{t('app.resumeTitle')}</h2>
+            <p className="text-gray-700 mb-2">
+              {t('app.resumeSaved', { date: formatDateTime(pendingSession.savedAt) })}
+            </p>
+            <p className="text-sm text-gray-600 mb-6">
+              {t('app.resumeTotals', { total: pendingSession.allOptions.length, eliminated: pendingSession.eliminatedIds.length })}
+            </p>
+            {pendingSession.publicLock && (
+              <p className="text-sm text-rose-700 font-semibold mb-6">{t('app.resumeLocked')}</p>
+            )}
+            <div className="flex gap-2 justify-end">
+              {!pendingSession.publicLock && (
+                <button
+                  onClick={startNewSession}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 transition-colors"
+                >
+                  {t('app.newSession')}
+                </button>
+              )}
+              <button
+                onClick={resumeSession}
+                className="px-4 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
+              >
+                {t('app.resume')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal del ganador */}
       {showWinnerModal && winner && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
           <div className="bg-white p-8 rounded-lg shadow-xl animate-bounce-in">
-            <h2 className="text-2xl font-bold text-green-800 mb-4">¡Felicidades al Ganador!</h2>
-            <p className="text-xl mb-4">El ganador es: <strong>{winner.value}</strong></p>
+            <h2 className="text-2xl font-bold text-green-800 mb-4">{t(OUTCOME_MESSAGES[lastOutcome].title)}</h2>
+            <p className="text-xl mb-4">{t(OUTCOME_MESSAGES[lastOutcome].label)} <strong>{winner.value}</strong></p>
+            {lastRecord?.prizeName && (
+              <p className="text-lg text-amber-700 mb-4">{t('winner.prize')} <strong>{lastRecord.prizeName}</strong></p>
+            )}
+            {lastOutcome === 'knockedOut' && (
+              <p className="text-lg text-sky-800 mb-4">{t('gameMode.remaining', { count: drawableEntries.length })}</p>
+            )}
+            {lastOutcome === 'winner' && gameMode === 'keepWinner' && (
+              <p className="text-sm text-sky-800 mb-4">{t('gameMode.stillPlaying')}</p>
+            )}
             <p className="text-sm text-gray-600 mb-4">
-           
+              {Object.entries(allOptions[indexById.get(winner.id) ?? -1]?.fields ?? {}).map(([name, value]) => (
+                <span key={name} className="block">{name}: {value}</span>
+              ))}
             </p>
-            <button
-              onClick={() => setShowWinnerModal(false)}
-              className="px-4 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
-            >
-              Cerrar
-            </button>
+            <div className="flex gap-2 justify-end">
+              {lastRecord && lastOutcome === 'winner' && !lastRecord.absent && !verifiableEnded && (
+                <button
+                  onClick={redrawAbsentWinner}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 transition-colors flex items-center gap-1"
+                >
+                  <UserX size={18} />
+                  {t('winner.absent')}
+                </button>
+              )}
+              <button
+                onClick={closeWinnerModal}
+                className="px-4 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
+              >
+                {t('common.close')}
+              </button>
+            </div>
           </div>
         </div>
       )}
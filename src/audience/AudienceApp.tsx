@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react';
+import type { AudienceState, PresenterMessage } from '../lib/presenter';
+import { openPresenterChannel, postPresenterMessage } from '../lib/presenter';
+import { easeOut } from '../lib/wheelGeometry';
+import { triggerConfetti } from '../lib/celebration';
+import { DEFAULT_THEME, themeStyle } from '../lib/theme';
+import { OUTCOME_MESSAGES } from '../lib/gameModes';
+import Wheel from '../components/Wheel';
+import WheelCenter from '../components/WheelCenter';
+import CountdownOverlay from '../components/CountdownOverlay';
+import { useI18n } from '../lib/useI18n';
+
+// Pantalla del público: solo la ruleta, la opción actual y el ganador, sincronizada con el operador
+function AudienceApp() {
+  const { t } = useI18n();
+  const [audience, setAudience] = useState<AudienceState | null>(null); // Último estado recibido del operador
+  const [option, setOption] = useState(''); // Opción mostrada actualmente
+  const [rotation, setRotation] = useState(0); // Rotación dibujada en esta ventana
+  const animationRef = useRef<number>();
+
+  // Escuchar al operador y pedirle el estado actual al abrir la ventana
+  useEffect(() => {
+    const channel = openPresenterChannel();
+    if (!channel) return;
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      const message = event.data;
+      if (message.type === 'state') {
+        setAudience(message.state);
+      } else if (message.type === 'option') {
+        setOption(message.option);
+      }
+    };
+    postPresenterMessage(channel, { type: 'hello' });
+    return () => channel.close();
+  }, []);
+
+  // Animar el giro localmente con la misma curva que la consola del operador.
+  // El giro se identifica por su inicio: los reenvíos del mismo estado no lo reinician.
+  const spin = audience?.spin ?? null;
+  const restingRotation = audience?.rotation ?? 0;
+  const spinStart = spin?.startedAt;
+  const spinFrom = spin?.from ?? 0;
+  const spinTo = spin?.to ?? 0;
+  const spinDuration = spin?.duration ?? 0;
+  useEffect(() => {
+    if (spinStart === undefined) {
+      setRotation(restingRotation);
+      return;
+    }
+    const frame = () => {
+      const progress = spinDuration > 0 ? Math.min(Math.max((Date.now() - spinStart) / spinDuration, 0), 1) : 1;
+      setRotation(spinFrom + (spinTo - spinFrom) * easeOut(progress));
+      if (progress < 1) {
+        animationRef.current = requestAnimationFrame(frame);
+      }
+    };
+    animationRef.current = requestAnimationFrame(frame);
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    };
+  }, [spinStart, spinFrom, spinTo, spinDuration, restingRotation]);
+
+  // Celebrar cuando el operador muestra un ganador nuevo, con el confeti de su premio; los eliminados no se celebran
+  const winner = audience?.winner ?? null;
+  const outcome = audience?.winnerOutcome ?? 'winner';
+  const confettiParticles = audience?.confettiParticles;
+  const theme = audience?.theme ?? DEFAULT_THEME;
+  const celebratedWinner = useRef<string | null>(null); // Los reenvíos del mismo estado no repiten el confeti
+  useEffect(() => {
+    if (winner === celebratedWinner.current) return;
+    celebratedWinner.current = winner;
+    if (winner && outcome !== 'knockedOut') triggerConfetti(confettiParticles);
+  }, [winner, outcome, confettiParticles]);
+
+  // Título de la pestaña según el tema
+  useEffect(() => {
+    document.title = theme.title;
+  }, [theme.title]);
+
+  return (
+    <div className="min-h-screen bg-contain bg-no-repeat bg-center p-4" style={themeStyle(theme)}>
+      {/* Título principal */}
+      <h1 className="text-4xl font-extrabold text-center mb-8 text-shadow-lg bg-clip-text text-transparent bg-gradient-to-r from-green-700 to-green-500">
+        {theme.title}
+      </h1>
+
+      {!audience ? (
+        <p className="text-center text-xl font-semibold text-green-800">
+          {typeof BroadcastChannel !== 'undefined'
+            ? t('audience.waiting')
+            : t('audience.unsupported')}
+        </p>
+      ) : (
+        <div className="flex flex-col items-center">
+          {/* Premio que se está sorteando */}
+          {audience.prize && (
+            <div className="mb-3 text-center bg-amber-400 text-amber-950 px-4 py-1 rounded-full shadow font-semibold">
+              {t('wheel.prize', audience.prize)}
+            </div>
+          )}
+
+          {/* Cuadro de opción actual */}
+          {option && (
+            <div className="mb-9 text-center option-display px-4 py-2 rounded-xl">
+              <h2 className="text-2xl font-bold text-white">{option}</h2>
+            </div>
+          )}
+
+          {/* Ruleta sin controles: el giro se lanza desde la consola */}
+          <div className="relative">
+            <Wheel segments={audience.segments} rotation={rotation} showLabels={audience.showLabels} palette={theme.palette}>
+              <WheelCenter theme={theme} />
+            </Wheel>
+
+            {/* Flecha indicadora */}
+            <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-7">
+              <div className="arrow" />
+            </div>
+
+            {/* Cuenta regresiva del giro programado */}
+            {audience.countdownTo !== null && <CountdownOverlay target={audience.countdownTo} />}
+          </div>
+        </div>
+      )}
+
+      {/* Modal del ganador, se cierra desde la consola */}
+      {winner && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+          <div className="bg-white p-8 rounded-lg shadow-xl animate-bounce-in">
+            <h2 className="text-2xl font-bold text-green-800 mb-4">{t(OUTCOME_MESSAGES[outcome].title)}</h2>
+            <p className="text-xl mb-4">{t(OUTCOME_MESSAGES[outcome].label)} <strong>{winner}</strong></p>
+            {audience?.winnerPrize && (
+              <p className="text-lg text-amber-700">{t('winner.prize')} <strong>{audience.winnerPrize}</strong></p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AudienceApp;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Layers } from 'lucide-react';
+import type { CategoryRules } from '../types';
+import { UNCATEGORIZED, type CategoryCount } from '../lib/categories';
+import { useI18n } from '../lib/useI18n';
+
+interface CategoryPanelProps {
+  counts: CategoryCount[];
+  rules: CategoryRules;
+  disabled: boolean; // Giro en curso
+  ignored: boolean; // Modo verificable: se sortea sobre la lista congelada, sin filtro ni cupos
+  onChange: (rules: CategoryRules) => void;
+}
+
+// Conteos por categoría, filtro del próximo giro y cupo de ganadores por categoría
+function CategoryPanel({ counts, rules, disabled, ignored, onChange }: CategoryPanelProps) {
+  const { t, formatNumber } = useI18n();
+  const selected = new Set(rules.filter);
+  const [quotaText, setQuotaText] = useState(rules.maxWinners?.toString() ?? ''); // Cupo mientras se escribe
+
+  useEffect(() => {
+    setQuotaText(rules.maxWinners?.toString() ?? '');
+  }, [rules.maxWinners]);
+
+  // Incluir o quitar una categoría del próximo giro
+  const toggleCategory = (category: string) => {
+    const next = new Set(selected);
+    if (next.has(category)) next.delete(category);
+    else next.add(category);
+    onChange({ ...rules, filter: [...next] });
+  };
+
+  // Aplicar el cupo al salir del campo o con Enter, así cada cambio queda una sola vez en la auditoría;
+  // vacío o cero quita el límite
+  const commitQuota = () => {
+    const value = Math.floor(Number(quotaText));
+    const maxWinners = Number.isFinite(value) && value > 0 ? value : null;
+    setQuotaText(maxWinners?.toString() ?? '');
+    if (maxWinners !== rules.maxWinners) onChange({ ...rules, maxWinners });
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-teal-50 rounded-lg border border-teal-200">
+      <h3 className="text-lg font-semibold text-teal-800 mb-2 flex items-center gap-2">
+        <Layers size={20} />
+        {t('categories.title')}
+      </h3>
+
+      {ignored && <p className="text-xs text-teal-700 mb-2">{t('categories.verifiable')}</p>}
+
+      {/* Categorías con participantes disponibles, ganadores y si entran en el próximo giro */}
+      {counts.map(count => {
+        const full = rules.maxWinners !== null && count.category !== UNCATEGORIZED && count.winners >= rules.maxWinners;
+        return (
+          <label key={count.category} className="flex items-center justify-between gap-2 py-1 border-b border-teal-100 text-sm">
+            <span className={`flex items-center gap-2 min-w-0 ${full ? 'text-gray-400' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(count.category)}
+                disabled={disabled || ignored}
+                onChange={() => toggleCategory(count.category)}
+              />
+              <span className="truncate">{count.category || t('categories.none')}</span>
+            </span>
+            <span className="text-xs text-teal-700 whitespace-nowrap">
+              {t('categories.counts', {
+                available: formatNumber(count.available),
+                total: formatNumber(count.total),
+                winners: formatNumber(count.winners),
+              })}
+            </span>
+          </label>
+        );
+      })}
+      <p className="text-xs text-gray-500 mt-1 mb-2">{t('categories.filterHint')}</p>
+
+      {/* Cupo de ganadores por categoría */}
+      <label className="flex items-center justify-between gap-2 text-sm">
+        {t('categories.quota')}
+        <input
+          type="number"
+          min={0}
+          value={quotaText}
+          placeholder={t('categories.noLimit')}
+          disabled={disabled || ignored}
+          onChange={(e) => setQuotaText(e.target.value)}
+          onBlur={commitQuota}
+          onKeyDown={(e) => e.key === 'Enter' && commitQuota()}
+          className="w-24 p-1 border rounded focus:outline-none focus:ring-2 focus:ring-teal-500"
+        />
+      </label>
+    </div>
+  );
+}
+
+export default CategoryPanel;
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { FileText, Printer, Download, X, ScrollText } from 'lucide-react';
+import type { AuditEvent, DrawRecord, Entry, Prize, PublicLock, VerifiableSession } from '../types';
+import { BLANK_SIGNATURES, buildCertificateHtml, printCertificate, type CertificateData } from '../lib/certificate';
+import { downloadFile } from '../lib/historyExport';
+import { verifyAuditTrail } from '../lib/audit';
+import { useI18n } from '../lib/useI18n';
+
+interface CertificateDialogProps {
+  title: string;
+  entries: Entry[];
+  prizes: Prize[];
+  history: DrawRecord[];
+  verifiable: VerifiableSession | null;
+  auditTrail: AuditEvent[];
+  publicLock: PublicLock | null;
+  onClose: () => void;
+}
+
+// Diálogo para completar lugar y firmantes antes de imprimir el acta del sorteo
+function CertificateDialog({ title, entries, prizes, history, verifiable, auditTrail, publicLock, onClose }: CertificateDialogProps) {
+  const { locale, t } = useI18n();
+  const [place, setPlace] = useState('');
+  const [witnesses, setWitnesses] = useState('');
+  const [error, setError] = useState('');
+  const [auditBrokenAt, setAuditBrokenAt] = useState<number | null>(null); // Primer evento alterado del registro
+  const [auditChecked, setAuditChecked] = useState(false); // El acta no se emite hasta comprobar la cadena
+
+  // Comprobar la cadena de auditoría antes de volcarla en el acta
+  useEffect(() => {
+    let active = true;
+    setAuditChecked(false);
+    verifyAuditTrail(auditTrail)
+      .then(brokenAt => {
+        if (!active) return;
+        setAuditBrokenAt(brokenAt);
+        setAuditChecked(true);
+      })
+      .catch(error => {
+        console.error('No se pudo verificar el registro de auditoría', error);
+        if (active) setError(t('certificate.auditUnverified'));
+      });
+    return () => {
+      active = false;
+    };
+  }, [auditTrail, t]);
+
+  // Acta con los datos actuales de la sesión
+  const buildHtml = () => {
+    const data: CertificateData = {
+      title,
+      place: place.trim(),
+      witnesses: witnesses.split('\n').map(name => name.trim()).filter(Boolean),
+      entries,
+      prizes,
+      history,
+      verifiable,
+      audit: auditTrail,
+      auditBrokenAt,
+      publicLock,
+      generatedAt: Date.now(),
+    };
+    return buildCertificateHtml(data, locale);
+  };
+
+  // Imprimir; si el navegador bloquea la ventana, sugerir la descarga
+  const print = () => {
+    if (!auditChecked) return;
+    setError(printCertificate(buildHtml()) ? '' : t('certificate.popupBlocked'));
+  };
+
+  // Descargar el acta para imprimirla o archivarla más tarde
+  const download = () => {
+    if (!auditChecked) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(buildHtml(), t('certificate.filename', { date }), 'text/html');
+  };
+
+  // Descargar el registro de auditoría completo para recalcular la cadena de hashes
+  const downloadAudit = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(auditTrail, null, 2), t('certificate.auditFilename', { date }), 'application/json');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[32rem]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-green-800 flex items-center gap-2">
+            <FileText size={24} />
+            {t('certificate.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="text-red-600 font-semibold mb-4">{error}</p>}
+        {auditBrokenAt !== null && (
+          <p className="text-red-600 font-semibold mb-4">{t('certificate.auditBroken', { sequence: auditBrokenAt })}</p>
+        )}
+
+        <label className="block text-sm font-semibold text-gray-700 mb-1">{t('certificate.place')}</label>
+        <input
+          value={place}
+          onChange={(e) => setPlace(e.target.value)}
+          placeholder={t('certificate.placePlaceholder')}
+          className="w-full p-2 border rounded-lg mb-3 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+
+        <label className="block text-sm font-semibold text-gray-700 mb-1">{t('certificate.witnesses')}</label>
+        <textarea
+          value={witnesses}
+          onChange={(e) => setWitnesses(e.target.value)}
+          className="w-full h-28 p-2 border rounded-lg mb-1 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <p className="text-xs text-gray-500 mb-4">{t('certificate.witnessesHint', { count: BLANK_SIGNATURES })}</p>
+
+        <div className="flex gap-2">
+          <button
+            onClick={print}
+            disabled={!auditChecked}
+            className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Printer size={18} />
+            {t('certificate.print')}
+          </button>
+          <button
+            onClick={download}
+            disabled={!auditChecked}
+            className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {t('certificate.download')}
+          </button>
+        </div>
+        <button
+          onClick={downloadAudit}
+          disabled={auditTrail.length === 0}
+          className="w-full mt-2 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center gap-2 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <ScrollText size={18} />
+          {t('certificate.auditDownload', { count: auditTrail.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CertificateDialog;
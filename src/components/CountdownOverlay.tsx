@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { useI18n } from '../lib/useI18n';
+
+const TICK = 200; // Milisegundos entre actualizaciones, para no saltear segundos
+
+// Segundos que faltan hasta el momento dado, redondeados hacia arriba
+const secondsUntil = (target: number) => Math.max(0, Math.ceil((target - Date.now()) / 1000));
+
+// Texto de la cuenta: segundos solos en el último minuto, si no minutos y segundos
+const formatRemaining = (seconds: number) => {
+  if (seconds < 60) return String(seconds);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Cuenta regresiva grande sobre la ruleta hasta el próximo giro programado
+function CountdownOverlay({ target }: { target: number }) {
+  const { t } = useI18n();
+  const [seconds, setSeconds] = useState(() => secondsUntil(target));
+
+  useEffect(() => {
+    setSeconds(secondsUntil(target));
+    const timer = window.setInterval(() => setSeconds(secondsUntil(target)), TICK);
+    return () => window.clearInterval(timer);
+  }, [target]);
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+      <div className="bg-black bg-opacity-60 text-white rounded-full w-64 h-64 flex flex-col items-center justify-center shadow-xl">
+        <span className="text-sm uppercase tracking-widest">{t('schedule.countdown')}</span>
+        <span className="text-8xl font-extrabold tabular-nums">{formatRemaining(seconds)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default CountdownOverlay;
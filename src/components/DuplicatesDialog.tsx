@@ -0,0 +1,72 @@
+import { Copy } from 'lucide-react';
+import type { Entry } from '../types';
+import type { DuplicateStrategy } from '../lib/entries';
+import { useI18n } from '../lib/useI18n';
+
+interface DuplicatesDialogProps {
+  duplicates: Entry[];
+  total: number;
+  onResolve: (strategy: DuplicateStrategy) => void;
+  onCancel: () => void;
+}
+
+const MAX_DUPLICATES_SHOWN = 15;
+
+// Diálogo para decidir qué hacer con los participantes repetidos al agregar una lista
+function DuplicatesDialog({ duplicates, total, onResolve, onCancel }: DuplicatesDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[32rem]">
+        <h2 className="text-2xl font-bold text-green-800 mb-2 flex items-center gap-2">
+          <Copy size={24} />
+          {t('duplicates.title')}
+        </h2>
+        <p className="text-gray-700 mb-2">
+          {t('duplicates.description', { count: duplicates.length, total })}
+        </p>
+        <ul className="text-sm text-gray-600 mb-4 max-h-40 overflow-y-auto">
+          {duplicates.slice(0, MAX_DUPLICATES_SHOWN).map(entry => (
+            <li key={entry.id}>
+              {entry.value}
+              {entry.memberId && <span className="ml-2 text-xs text-gray-400">#{entry.memberId}</span>}
+            </li>
+          ))}
+          {duplicates.length > MAX_DUPLICATES_SHOWN && (
+            <li>{t('duplicates.more', { count: duplicates.length - MAX_DUPLICATES_SHOWN })}</li>
+          )}
+        </ul>
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <button
+            onClick={() => onResolve('merge')}
+            className="py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            title={t('duplicates.mergeHint')}
+          >
+            {t('duplicates.merge')}
+          </button>
+          <button
+            onClick={() => onResolve('keep')}
+            className="py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            title={t('duplicates.keepHint')}
+          >
+            {t('duplicates.keep')}
+          </button>
+          <button
+            onClick={() => onResolve('reject')}
+            className="py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+            title={t('duplicates.rejectHint')}
+          >
+            {t('duplicates.reject')}
+          </button>
+        </div>
+        <button onClick={onCancel} className="w-full py-2 text-gray-600 hover:text-gray-800">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicatesDialog;
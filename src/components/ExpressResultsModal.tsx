@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { Zap } from 'lucide-react';
+import type { DrawRecord } from '../types';
+import { isWinningRecord } from '../lib/prizes';
+import { useI18n } from '../lib/useI18n';
+
+interface ExpressResultsModalProps {
+  records: DrawRecord[];
+  revealOneByOne: boolean;
+  onRevealed: () => void; // Se llama una vez, cuando ya se ven todos los ganadores
+  onClose: () => void;
+}
+
+// Modal con los ganadores del sorteo exprés, todos juntos o revelados uno a uno
+function ExpressResultsModal({ records, revealOneByOne, onRevealed, onClose }: ExpressResultsModalProps) {
+  const { t } = useI18n();
+  const [revealed, setRevealed] = useState(revealOneByOne ? 0 : records.length); // Ganadores visibles
+  const allRevealed = revealed >= records.length;
+  const winners = records.filter(isWinningRecord).length; // En último en pie la mayoría quedan fuera
+
+  const celebrated = useRef(false); // Festejar una sola vez aunque el efecto se repita
+
+  useEffect(() => {
+    if (!allRevealed || celebrated.current) return;
+    celebrated.current = true;
+    onRevealed();
+  }, [allRevealed, onRevealed]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white p-8 rounded-lg shadow-xl animate-bounce-in w-[32rem] max-h-[85vh] flex flex-col">
+        <h2 className="text-2xl font-bold text-green-800 mb-4 flex items-center gap-2">
+          <Zap size={24} />
+          {winners > 0 ? t('express.title', { count: winners }) : t('express.knockedOutTitle', { count: records.length })}
+        </h2>
+
+        <ol className="flex-1 overflow-y-auto mb-4">
+          {records.map((record, i) => (
+            <li
+              key={record.sequence}
+              onClick={() => i === revealed && setRevealed(revealed + 1)}
+              className={`flex justify-between py-2 border-b ${i === revealed ? 'cursor-pointer hover:bg-green-50' : ''}`}
+            >
+              <span className="text-gray-500 w-10">{i + 1}.</span>
+              <span className={`flex-1 font-semibold ${i < revealed ? 'animate-bounce-in' : 'text-gray-300'} ${i < revealed && record.knockedOut ? 'text-gray-400 line-through' : ''}`}>
+                {i < revealed ? record.winner : '? ? ?'}
+              </span>
+              {record.knockedOut && i < revealed && <span className="text-sm text-gray-500">{t('express.knockedOut')}</span>}
+              {record.prizeName && <span className="text-sm text-amber-700">{record.prizeName}</span>}
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex gap-2 justify-end">
+          {!allRevealed && (
+            <>
+              <button
+                onClick={() => setRevealed(records.length)}
+                className="px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 transition-colors"
+              >
+                {t('express.showAll')}
+              </button>
+              <button
+                onClick={() => setRevealed(revealed + 1)}
+                className="px-4 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
+              >
+                {t('express.revealNext')}
+              </button>
+            </>
+          )}
+          {allRevealed && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition-colors"
+            >
+              {t('common.close')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExpressResultsModal;
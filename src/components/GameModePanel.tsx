@@ -0,0 +1,46 @@
+import { Swords } from 'lucide-react';
+import type { GameMode } from '../types';
+import { GAME_MODES } from '../lib/gameModes';
+import { useI18n } from '../lib/useI18n';
+
+interface GameModePanelProps {
+  mode: GameMode;
+  disabled: boolean; // Giro en curso
+  verifiable: boolean; // El sorteo verificable no admite repetir ganadores
+  onChange: (mode: GameMode) => void;
+}
+
+// Elección del modo de juego: cómo se aplica el resultado de cada giro
+function GameModePanel({ mode, disabled, verifiable, onChange }: GameModePanelProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-4 p-4 bg-sky-50 rounded-lg border border-sky-200">
+      <h3 className="text-lg font-semibold text-sky-800 mb-2 flex items-center gap-2">
+        <Swords size={20} />
+        {t('gameMode.title')}
+      </h3>
+      {GAME_MODES.map(option => {
+        const unavailable = verifiable && option.id === 'keepWinner';
+        return (
+          <label key={option.id} className={`flex items-start gap-2 py-1 text-sm ${unavailable ? 'text-gray-400' : ''}`}>
+            <input
+              type="radio"
+              name="game-mode"
+              className="mt-1"
+              checked={mode === option.id}
+              disabled={disabled || unavailable}
+              onChange={() => onChange(option.id)}
+            />
+            <span>
+              <span className="font-semibold">{t(option.label)}</span>
+              <span className="block text-xs text-gray-600">{t(option.description)}</span>
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+export default GameModePanel;
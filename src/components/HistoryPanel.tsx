@@ -0,0 +1,134 @@
+import { X, Download, UserX, Undo2, FileText } from 'lucide-react';
+import type { DrawRecord } from '../types';
+import { historyToCsv, historyToJson, downloadFile } from '../lib/historyExport';
+import { useI18n } from '../lib/useI18n';
+
+interface HistoryPanelProps {
+  history: DrawRecord[];
+  onMarkAbsent?: (sequence: number) => void; // Sin definir mientras no se puede corregir (giro en curso)
+  onUndo?: () => void; // Sin definir cuando el último giro no se puede deshacer
+  onCertificate: () => void;
+  onClose: () => void;
+}
+
+// Panel con el historial de giros y exportación a CSV/JSON
+function HistoryPanel({ history, onMarkAbsent, onUndo, onCertificate, onClose }: HistoryPanelProps) {
+  const { locale, t, formatNumber, formatDateTime } = useI18n();
+
+  // Nombre base de los archivos exportados con la fecha del día
+  const exportFilename = (extension: string) => {
+    const date = new Date().toISOString().slice(0, 10);
+    return t('history.filename', { date, extension });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[36rem] max-h-[80vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-green-800">{t('history.title')}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Tabla de giros en orden */}
+        <div className="flex-1 overflow-y-auto mb-4">
+          {history.length === 0 ? (
+            <p className="text-gray-600">{t('history.empty')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left border-b">
+                  <th className="py-2">#</th>
+                  <th className="py-2">{t('history.time')}</th>
+                  <th className="py-2">{t('history.winner')}</th>
+                  <th className="py-2">{t('history.prize')}</th>
+                  <th className="py-2 text-right">{t('history.available')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(record => (
+                  <tr key={record.sequence} className={`border-b ${record.absent || record.knockedOut ? 'text-gray-400' : ''}`}>
+                    <td className="py-2">{record.sequence}</td>
+                    <td className="py-2">{formatDateTime(record.timestamp, { timeStyle: 'medium' })}</td>
+                    <td className="py-2 font-semibold">
+                      {record.winner}
+                      {record.redraw && (
+                        <span className="ml-2 text-xs text-purple-600">{t('history.redraw')}</span>
+                      )}
+                      {record.absent && (
+                        <span className="ml-2 text-xs text-red-500">{t('history.absent')}</span>
+                      )}
+                      {record.knockedOut && (
+                        <span className="ml-2 text-xs text-gray-500">{t('history.knockedOut')}</span>
+                      )}
+                      {record.survivor && (
+                        <span className="ml-2 text-xs text-green-600">{t('history.survivor')}</span>
+                      )}
+                      {record.predefined && (
+                        <span className="ml-2 text-xs text-orange-600">{t('history.predefined')}</span>
+                      )}
+                      {!record.absent && !record.knockedOut && onMarkAbsent && (
+                        <button
+                          onClick={() => onMarkAbsent(record.sequence)}
+                          className="ml-2 align-middle text-gray-400 hover:text-red-600"
+                          title={t('history.markAbsent')}
+                        >
+                          <UserX size={16} />
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-2">{record.prizeName ?? ''}</td>
+                    <td className="py-2 text-right">{formatNumber(record.poolSize)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Deshacer el último giro */}
+        {onUndo && history.length > 0 && (
+          <button
+            onClick={onUndo}
+            className="mb-2 py-2 bg-white text-red-600 border border-red-500 rounded-lg hover:bg-red-50 transition-colors flex items-center justify-center gap-2"
+            title={t('history.undoHint')}
+          >
+            <Undo2 size={18} />
+            {t('history.undo')}
+          </button>
+        )}
+
+        {/* Botones de exportación */}
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile(historyToCsv(history, locale), exportFilename('csv'), 'text/csv')}
+            disabled={history.length === 0}
+            className="flex-1 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {t('history.exportCsv')}
+          </button>
+          <button
+            onClick={() => downloadFile(historyToJson(history), exportFilename('json'), 'application/json')}
+            disabled={history.length === 0}
+            className="flex-1 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            {t('history.exportJson')}
+          </button>
+          <button
+            onClick={onCertificate}
+            disabled={history.length === 0}
+            className="flex-1 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors flex items-center justify-center gap-2 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <FileText size={18} />
+            {t('certificate.title')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,54 @@
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import {
+  errorMessage,
+  formatDateTime,
+  formatNumber,
+  loadLocale,
+  LOCALE_STORAGE_KEY,
+  saveLocale,
+  translate,
+  type Locale,
+} from '../lib/i18n';
+import { I18nContext, type I18n } from '../lib/useI18n';
+
+interface I18nProviderProps {
+  children: ReactNode;
+  initialLocale?: Locale; // Idioma inicial en lugar del guardado
+  persist?: boolean; // false para no recordar el idioma ni seguir a las otras ventanas, p. ej. en la ruleta insertada
+}
+
+// Proveedor del idioma: lo recuerda en el navegador y lo sincroniza entre ventanas abiertas
+function I18nProvider({ children, initialLocale, persist = true }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale ?? loadLocale());
+
+  // Cambios de idioma hechos en otra ventana (consola, pantalla del público o verificador)
+  useEffect(() => {
+    if (!persist) return;
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === LOCALE_STORAGE_KEY) setLocaleState(loadLocale());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [persist]);
+
+  // Idioma del documento para lectores de pantalla y guiones automáticos
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const i18n = useMemo<I18n>(() => ({
+    locale,
+    setLocale: (next) => {
+      if (persist) saveLocale(next);
+      setLocaleState(next);
+    },
+    t: (key, params) => translate(locale, key, params),
+    formatNumber: (value, options) => formatNumber(locale, value, options),
+    formatDateTime: (timestamp, options) => formatDateTime(locale, timestamp, options),
+    errorMessage: (error) => errorMessage(locale, error),
+  }), [locale, persist]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export default I18nProvider;
@@ -0,0 +1,276 @@
+import { useState, useMemo } from 'react';
+import { X, Upload, FileSpreadsheet } from 'lucide-react';
+import type { Entry } from '../types';
+import { readTableFile, columnNames, applyMapping, type ColumnMapping, type SkippedRow } from '../lib/importers';
+import { useI18n } from '../lib/useI18n';
+
+interface ImportDialogProps {
+  onImport: (entries: Entry[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+const MAX_SKIPPED_SHOWN = 20;
+
+// Columnas opcionales con un rol especial en el mapeo
+type RoleColumn = 'weightColumn' | 'memberIdColumn' | 'categoryColumn';
+
+const ROLE_COLUMNS: RoleColumn[] = ['weightColumn', 'memberIdColumn', 'categoryColumn'];
+
+interface RoleSelectProps {
+  label: string;
+  emptyLabel: string;
+  value: number | null;
+  names: string[];
+  excluded: number;
+  onChange: (column: number | null) => void;
+}
+
+// Selector de una columna opcional (boletos, número de socio, categoría)
+function RoleSelect({ label, emptyLabel, value, names, excluded, onChange }: RoleSelectProps) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      {label}:
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+      >
+        <option value="">{emptyLabel}</option>
+        {names.map((name, i) => i !== excluded && (
+          <option key={i} value={i}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// Diálogo para importar participantes desde CSV o Excel con mapeo de columnas
+function ImportDialog({ onImport, onClose }: ImportDialogProps) {
+  const { t, errorMessage } = useI18n();
+  const [fileName, setFileName] = useState(''); // Archivo cargado
+  const [rows, setRows] = useState<string[][]>([]); // Filas leídas del archivo
+  const [error, setError] = useState(''); // Error de lectura
+  const [dragging, setDragging] = useState(false); // Arrastrando un archivo sobre la zona
+  const [progress, setProgress] = useState<number | null>(null); // Avance de lectura del archivo
+  const [mapping, setMapping] = useState<ColumnMapping>({ hasHeader: true, labelColumn: 0, fieldColumns: [], weightColumn: null, memberIdColumn: null, categoryColumn: null });
+
+  const names = useMemo(
+    () => columnNames(rows, mapping.hasHeader, index => t('import.genericColumn', { number: String(index + 1) })),
+    [rows, mapping.hasHeader, t]
+  );
+  const result = useMemo(() => applyMapping(rows, mapping, names), [rows, mapping, names]);
+
+  // Motivo de una fila omitida en el idioma elegido
+  const skipReason = (skip: SkippedRow) => {
+    switch (skip.reason) {
+      case 'empty': return t('import.skip.empty');
+      case 'missingLabel': return t('import.skip.missingLabel', { column: skip.column ?? '' });
+      case 'invalidWeight': return t('import.skip.invalidWeight', { column: skip.column ?? '' });
+    }
+  };
+
+  // Leer el archivo soltado o elegido
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    setProgress(0);
+    try {
+      const table = await readTableFile(file, setProgress);
+      setRows(table);
+      setFileName(file.name);
+      setMapping({ hasHeader: true, labelColumn: 0, fieldColumns: [], weightColumn: null, memberIdColumn: null, categoryColumn: null });
+    } catch (e) {
+      setRows([]);
+      setError(errorMessage(e));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  // Marcar o desmarcar una columna como dato adicional
+  const toggleField = (column: number) => {
+    setMapping(prev => ({
+      ...prev,
+      fieldColumns: prev.fieldColumns.includes(column)
+        ? prev.fieldColumns.filter(c => c !== column)
+        : [...prev.fieldColumns, column].sort((a, b) => a - b),
+    }));
+  };
+
+  // Asignar una columna a un rol especial, quitándola de los otros roles y de los datos adicionales
+  const setRole = (role: RoleColumn, column: number | null) => {
+    setMapping(prev => {
+      const next = { ...prev, fieldColumns: prev.fieldColumns.filter(c => c !== column) };
+      for (const other of ROLE_COLUMNS) {
+        if (other !== role && prev[other] === column) next[other] = null;
+      }
+      next[role] = column;
+      return next;
+    });
+  };
+
+  const previewRows = rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[48rem] max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-green-800">{t('import.title')}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Zona para arrastrar y soltar el archivo */}
+        <label
+          onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => { e.preventDefault(); setDragging(false); loadFile(e.dataTransfer.files[0]); }}
+          className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg cursor-pointer mb-4 ${dragging ? 'border-green-500 bg-green-50' : 'border-gray-300 hover:border-green-400'}`}
+        >
+          {fileName ? <FileSpreadsheet size={32} className="text-green-600" /> : <Upload size={32} className="text-gray-400" />}
+          <span className="text-gray-700">{progress !== null
+            ? t('import.reading', { percent: Math.round(progress * 100) })
+            : fileName || t('import.dropHint')}</span>
+          <input type="file" accept=".csv,.txt,.xlsx" className="hidden" onChange={(e) => loadFile(e.target.files?.[0])} />
+        </label>
+
+        {error && <p className="text-red-600 font-semibold mb-4">{error}</p>}
+
+        {rows.length > 0 && (
+          <div className="flex-1 overflow-y-auto">
+            {/* Mapeo de columnas */}
+            <div className="flex flex-wrap items-center gap-4 mb-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={(e) => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+                />
+                {t('import.hasHeader')}
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                {t('import.labelColumn')}
+                <select
+                  value={mapping.labelColumn}
+                  onChange={(e) => {
+                    const labelColumn = Number(e.target.value);
+                    setMapping(prev => ({
+                      ...prev,
+                      labelColumn,
+                      fieldColumns: prev.fieldColumns.filter(c => c !== labelColumn),
+                      weightColumn: prev.weightColumn === labelColumn ? null : prev.weightColumn,
+                      memberIdColumn: prev.memberIdColumn === labelColumn ? null : prev.memberIdColumn,
+                      categoryColumn: prev.categoryColumn === labelColumn ? null : prev.categoryColumn,
+                    }));
+                  }}
+                  className="p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {names.map((name, i) => (
+                    <option key={i} value={i}>{name}</option>
+                  ))}
+                </select>
+              </label>
+              <RoleSelect
+                label={t('import.weightColumn')}
+                emptyLabel={t('import.weightNone')}
+                value={mapping.weightColumn}
+                names={names}
+                excluded={mapping.labelColumn}
+                onChange={(column) => setRole('weightColumn', column)}
+              />
+              <RoleSelect
+                label={t('import.memberIdColumn')}
+                emptyLabel={t('import.memberIdNone')}
+                value={mapping.memberIdColumn}
+                names={names}
+                excluded={mapping.labelColumn}
+                onChange={(column) => setRole('memberIdColumn', column)}
+              />
+              <RoleSelect
+                label={t('import.categoryColumn')}
+                emptyLabel={t('import.categoryNone')}
+                value={mapping.categoryColumn}
+                names={names}
+                excluded={mapping.labelColumn}
+                onChange={(column) => setRole('categoryColumn', column)}
+              />
+            </div>
+
+            {/* Vista previa con las columnas elegidas */}
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    {names.map((name, i) => (
+                      <th key={i} className={`py-2 pr-4 whitespace-nowrap ${i === mapping.labelColumn ? 'text-green-700' : ''}`}>
+                        {i === mapping.labelColumn ? (
+                          <span>{t('import.roleLabel', { name })}</span>
+                        ) : i === mapping.weightColumn ? (
+                          <span>{t('import.roleWeight', { name })}</span>
+                        ) : i === mapping.memberIdColumn ? (
+                          <span>{t('import.roleMemberId', { name })}</span>
+                        ) : i === mapping.categoryColumn ? (
+                          <span>{t('import.roleCategory', { name })}</span>
+                        ) : (
+                          <label className="flex items-center gap-1 font-normal">
+                            <input
+                              type="checkbox"
+                              checked={mapping.fieldColumns.includes(i)}
+                              onChange={() => toggleField(i)}
+                            />
+                            {name}
+                          </label>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row, r) => (
+                    <tr key={r} className="border-b">
+                      {names.map((_, i) => (
+                        <td
+                          key={i}
+                          className={`py-1 pr-4 whitespace-nowrap ${i === mapping.labelColumn ? 'font-semibold' : mapping.fieldColumns.includes(i) || i === mapping.weightColumn || i === mapping.memberIdColumn || i === mapping.categoryColumn ? '' : 'text-gray-400'}`}
+                        >
+                          {row[i] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Informe de filas omitidas */}
+            <p className="text-sm text-gray-700 mb-2">
+              {t('import.summary', { count: result.entries.length, skipped: result.skipped.length })}
+            </p>
+            {result.skipped.length > 0 && (
+              <ul className="text-xs text-red-600 mb-4 max-h-24 overflow-y-auto">
+                {result.skipped.slice(0, MAX_SKIPPED_SHOWN).map(skip => (
+                  <li key={skip.row}>{t('import.skippedRow', { row: skip.row, reason: skipReason(skip) })}</li>
+                ))}
+                {result.skipped.length > MAX_SKIPPED_SHOWN && (
+                  <li>{t('duplicates.more', { count: result.skipped.length - MAX_SKIPPED_SHOWN })}</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={() => onImport(result.entries)}
+          disabled={result.entries.length === 0}
+          className="w-full py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {result.entries.length > 0 ? t('import.submitCount', { count: result.entries.length }) : t('import.submit')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ImportDialog;
@@ -0,0 +1,25 @@
+import { Languages } from 'lucide-react';
+import { LOCALES, type Locale } from '../lib/i18n';
+import { useI18n } from '../lib/useI18n';
+
+// Selector de idioma de la interfaz
+function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className={`flex items-center gap-1 bg-white rounded-full shadow-lg px-2 py-1 ${className}`} title={t('language.label')}>
+      <Languages size={20} className="text-gray-600" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent text-sm focus:outline-none"
+      >
+        {LOCALES.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default LanguageSwitcher;
@@ -0,0 +1,118 @@
+import { useState, useMemo, useDeferredValue, useRef } from 'react';
+import { X, Search } from 'lucide-react';
+import type { Entry } from '../types';
+import { normalizeText } from '../lib/entries';
+import { useI18n } from '../lib/useI18n';
+
+interface OptionListProps {
+  options: Entry[];
+  eliminated: Set<string>;
+  totalWeight: number; // Boletos en juego, para calcular la probabilidad
+  locked: boolean;
+  onRemove: (id: string) => void;
+}
+
+const ROW_HEIGHT = 48; // Alto fijo de cada fila en píxeles
+const VIEWPORT_HEIGHT = 288; // Alto visible de la lista
+const OVERSCAN = 6; // Filas extra dibujadas arriba y abajo al desplazarse
+
+// Texto de búsqueda de una opción: nombre, número de socio, categoría y datos adicionales
+const searchText = (entry: Entry) => {
+  return normalizeText([entry.value, entry.memberId ?? '', entry.category ?? '', ...Object.values(entry.fields ?? {})].join(' '));
+};
+
+// Lista virtualizada con búsqueda: solo se dibujan las filas visibles aunque haya cientos de miles
+function OptionList({ options, eliminated, totalWeight, locked, onRemove }: OptionListProps) {
+  const { t, formatNumber } = useI18n();
+  const [query, setQuery] = useState(''); // Texto buscado
+  const [scrollTop, setScrollTop] = useState(0); // Desplazamiento actual de la lista
+  const deferredQuery = useDeferredValue(query);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // Índice de búsqueda calculado una vez por lista
+  const searchIndex = useMemo(() => options.map(searchText), [options]);
+
+  const filtered = useMemo(() => {
+    const term = normalizeText(deferredQuery);
+    if (term.length === 0) return options;
+    return options.filter((_, i) => searchIndex[i].includes(term));
+  }, [options, searchIndex, deferredQuery]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(filtered.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <div>
+      {/* Buscador */}
+      <div className="relative mb-2">
+        <Search size={16} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            if (viewportRef.current) viewportRef.current.scrollTop = 0;
+            setScrollTop(0);
+          }}
+          placeholder={t('options.searchPlaceholder')}
+          className="w-full pl-8 pr-2 py-1 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+      </div>
+      {deferredQuery.trim().length > 0 && (
+        <p className="text-xs text-gray-500 mb-1">{t('options.searchResults', { count: filtered.length })}</p>
+      )}
+
+      {/* Lista scrolleable de opciones */}
+      <div
+        ref={viewportRef}
+        className="overflow-y-auto"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(filtered.length, 1) * ROW_HEIGHT) }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: filtered.length * ROW_HEIGHT }}>
+          {filtered.slice(first, last).map((option, i) => {
+            const isEliminated = eliminated.has(option.id);
+            return (
+              <div
+                key={option.id}
+                className={`absolute left-0 right-0 flex items-center justify-between border-b ${isEliminated ? 'opacity-50 line-through' : ''}`}
+                style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                <span className="min-w-0 truncate">
+                  {option.value}
+                  {option.memberId && (
+                    <span className="ml-2 text-xs text-gray-400">#{option.memberId}</span>
+                  )}
+                  {option.category && (
+                    <span className="ml-2 text-xs text-teal-700">{option.category}</span>
+                  )}
+                  {option.weight > 1 && (
+                    <span className="ml-2 text-xs font-semibold text-blue-700">×{formatNumber(option.weight)}</span>
+                  )}
+                  {!isEliminated && totalWeight > 0 && (
+                    <span className="ml-2 text-xs text-gray-500">
+                      {formatNumber(option.weight / totalWeight, { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </span>
+                  )}
+                  {option.fields && (
+                    <span className="block text-xs text-gray-500 truncate">
+                      {Object.values(option.fields).filter(Boolean).join(' · ')}
+                    </span>
+                  )}
+                </span>
+                <button
+                  onClick={() => onRemove(option.id)}
+                  disabled={locked}
+                  className="text-red-500 hover:text-red-700 disabled:text-gray-300 disabled:cursor-not-allowed"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OptionList;
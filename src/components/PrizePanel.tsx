@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Gift, Plus, ArrowUp, ArrowDown, X } from 'lucide-react';
+import type { DrawRecord, Prize } from '../types';
+import { createPrize, prizeAssignments } from '../lib/prizes';
+import { useI18n } from '../lib/useI18n';
+
+interface PrizePanelProps {
+  prizes: Prize[];
+  history: DrawRecord[];
+  locked: boolean; // Sorteo público: el catálogo no se puede cambiar
+  onChange: (prizes: Prize[]) => void;
+}
+
+// Sección del panel de opciones con el catálogo de premios
+function PrizePanel({ prizes, history, locked, onChange }: PrizePanelProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState(''); // Nombre del premio nuevo
+  const [quantity, setQuantity] = useState(1); // Cantidad del premio nuevo
+
+  const assignments = prizeAssignments(prizes, history);
+
+  // Agregar un premio al final del catálogo
+  const addPrize = () => {
+    if (name.trim().length === 0 || quantity < 1) return;
+    onChange([...prizes, createPrize(name.trim(), quantity)]);
+    setName('');
+    setQuantity(1);
+  };
+
+  // Mover un premio en el orden de sorteo
+  const movePrize = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= prizes.length) return;
+    const reordered = [...prizes];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  // Quitar un premio que todavía no tiene ganadores
+  const removePrize = (id: string) => {
+    onChange(prizes.filter(prize => prize.id !== id));
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-amber-50 rounded-lg border border-amber-200">
+      <h3 className="text-lg font-semibold text-amber-800 mb-2 flex items-center gap-2">
+        <Gift size={20} />
+        {t('prizes.title')}
+      </h3>
+
+      {/* Catálogo en orden de sorteo */}
+      {assignments.map(({ prize, winners }, index) => (
+        <div key={prize.id} className="flex items-center justify-between py-1 border-b border-amber-100 text-sm">
+          <span className={winners.length >= prize.quantity ? 'text-gray-400' : ''}>
+            {prize.name}
+            <span className="ml-2 text-xs text-amber-700">{winners.length}/{prize.quantity}</span>
+          </span>
+          {!locked && (
+            <span className="flex gap-1">
+              <button onClick={() => movePrize(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:text-gray-300">
+                <ArrowUp size={16} />
+              </button>
+              <button onClick={() => movePrize(index, 1)} disabled={index === prizes.length - 1} className="text-gray-500 hover:text-gray-700 disabled:text-gray-300">
+                <ArrowDown size={16} />
+              </button>
+              <button
+                onClick={() => removePrize(prize.id)}
+                disabled={winners.length > 0}
+                className="text-red-500 hover:text-red-700 disabled:text-gray-300"
+                title={winners.length > 0 ? t('prizes.hasWinners') : t('prizes.remove')}
+              >
+                <X size={16} />
+              </button>
+            </span>
+          )}
+        </div>
+      ))}
+
+      {/* Formulario para agregar premios */}
+      {!locked && (
+        <div className="flex gap-2 mt-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addPrize()}
+            placeholder={t('prizes.namePlaceholder')}
+            className="flex-1 min-w-0 p-1 border rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 p-1 border rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+            title={t('prizes.quantity')}
+          />
+          <button
+            onClick={addPrize}
+            disabled={name.trim().length === 0}
+            className="px-2 bg-amber-500 text-white rounded hover:bg-amber-600 disabled:bg-gray-400"
+          >
+            <Plus size={18} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PrizePanel;
@@ -0,0 +1,35 @@
+import { Trophy } from 'lucide-react';
+import type { PrizeAssignment } from '../lib/prizes';
+import { useI18n } from '../lib/useI18n';
+
+interface PrizeSummaryProps {
+  assignments: PrizeAssignment[];
+}
+
+// Lista final de premios con sus ganadores
+function PrizeSummary({ assignments }: PrizeSummaryProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-6 w-[560px] bg-white bg-opacity-95 p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-green-800 mb-4 flex items-center gap-2">
+        <Trophy size={24} />
+        {t('prizes.summaryTitle')}
+      </h2>
+      {assignments.map(({ prize, winners }) => (
+        <div key={prize.id} className="mb-3">
+          <h3 className="font-semibold text-amber-800">
+            {prize.name} ({winners.length}/{prize.quantity})
+          </h3>
+          <ol className="list-decimal list-inside text-gray-800">
+            {winners.map(record => (
+              <li key={record.sequence}>{record.winner}</li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default PrizeSummary;
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import type { PublicLock } from '../types';
+import { MIN_PIN_LENGTH } from '../lib/audit';
+import { useI18n } from '../lib/useI18n';
+
+interface PublicLockPanelProps {
+  lock: PublicLock | null;
+  canLock: boolean;
+  onLock: (pin: string) => Promise<void>;
+  onUnlock: (pin: string) => Promise<boolean>; // false si el PIN no coincide
+}
+
+// Sección del panel de opciones para bloquear el sorteo público con un PIN
+function PublicLockPanel({ lock, canLock, onLock, onUnlock }: PublicLockPanelProps) {
+  const { t, formatDateTime } = useI18n();
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Bloquear después de comprobar que el PIN se escribió dos veces igual
+  const lockDraw = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      setError(t('publicLock.pinTooShort', { count: MIN_PIN_LENGTH }));
+      return;
+    }
+    if (pin !== confirmation) {
+      setError(t('publicLock.pinMismatch'));
+      return;
+    }
+    setBusy(true);
+    try {
+      await onLock(pin);
+      setPin('');
+      setConfirmation('');
+      setError('');
+    } catch (e) {
+      console.error('No se pudo bloquear el sorteo', e);
+      setError(t('publicLock.cryptoUnavailable'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Desbloquear con el PIN; los intentos fallidos quedan en la auditoría
+  const unlockDraw = async () => {
+    setBusy(true);
+    try {
+      const unlocked = await onUnlock(pin);
+      setError(unlocked ? '' : t('publicLock.wrongPin'));
+    } catch (e) {
+      console.error('No se pudo comprobar el PIN', e);
+      setError(t('publicLock.cryptoUnavailable'));
+    } finally {
+      setBusy(false);
+      setPin('');
+    }
+  };
+
+  const inputClass = 'w-full p-2 border rounded-lg mb-2 focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <div className="mb-4 p-4 bg-rose-50 rounded-lg border border-rose-200">
+      <h3 className="text-lg font-semibold text-rose-800 mb-2 flex items-center gap-2">
+        {lock ? <Lock size={20} /> : <Unlock size={20} />}
+        {lock ? t('publicLock.activeTitle') : t('publicLock.title')}
+      </h3>
+      <p className="text-sm text-rose-700 mb-2">
+        {lock ? t('publicLock.lockedAt', { date: formatDateTime(lock.lockedAt) }) : t('publicLock.description')}
+      </p>
+
+      {error && <p className="text-sm text-red-600 font-semibold mb-2">{error}</p>}
+
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        placeholder={t('publicLock.pin')}
+        className={inputClass}
+      />
+      {!lock && (
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder={t('publicLock.confirmPin')}
+          className={inputClass}
+        />
+      )}
+      <button
+        onClick={lock ? unlockDraw : lockDraw}
+        disabled={busy || pin.length === 0 || (!lock && !canLock)}
+        className="w-full py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {lock ? t('publicLock.unlock') : t('publicLock.lock')}
+      </button>
+    </div>
+  );
+}
+
+export default PublicLockPanel;
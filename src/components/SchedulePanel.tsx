@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { AlarmClock, X } from 'lucide-react';
+import type { ScheduledSpin } from '../types';
+import { COUNTDOWN_LIMITS, DEFAULT_COUNTDOWN } from '../lib/schedule';
+import { useI18n } from '../lib/useI18n';
+
+interface SchedulePanelProps {
+  schedule: ScheduledSpin[];
+  onAdd: (at: number, countdown: number) => void;
+  onRemove: (id: string) => void;
+}
+
+// Sección del panel de opciones para programar giros a una hora con cuenta regresiva
+function SchedulePanel({ schedule, onAdd, onRemove }: SchedulePanelProps) {
+  const { t, formatDateTime } = useI18n();
+  const [time, setTime] = useState(''); // Valor del campo datetime-local, en hora local
+  const [countdown, setCountdown] = useState(DEFAULT_COUNTDOWN);
+  const [error, setError] = useState('');
+
+  // Programar el giro si la hora es futura y no coincide con otro de la cola
+  const addSpin = () => {
+    const at = new Date(time).getTime();
+    if (Number.isNaN(at) || at <= Date.now()) {
+      setError(t('schedule.pastTime'));
+      return;
+    }
+    if (schedule.some(spin => spin.at === at)) {
+      setError(t('schedule.duplicateTime'));
+      return;
+    }
+    onAdd(at, countdown);
+    setTime('');
+    setError('');
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200">
+      <h3 className="text-lg font-semibold text-indigo-800 mb-2 flex items-center gap-2">
+        <AlarmClock size={20} />
+        {t('schedule.title')}
+      </h3>
+      <p className="text-sm text-indigo-700 mb-2">{t('schedule.description')}</p>
+
+      {error && <p className="text-sm text-red-600 font-semibold mb-2">{error}</p>}
+
+      <label className="block text-sm text-indigo-800 mb-1">{t('schedule.time')}</label>
+      <input
+        type="datetime-local"
+        value={time}
+        onChange={(e) => setTime(e.target.value)}
+        className="w-full p-2 border rounded-lg mb-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <label className="block text-sm text-indigo-800 mb-1">{t('schedule.countdownSeconds')}</label>
+      <input
+        type="number"
+        min={COUNTDOWN_LIMITS.min}
+        max={COUNTDOWN_LIMITS.max}
+        value={countdown}
+        onChange={(e) => setCountdown(Number(e.target.value))}
+        className="w-full p-2 border rounded-lg mb-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      <button
+        onClick={addSpin}
+        disabled={time === ''}
+        className="w-full py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {t('schedule.add')}
+      </button>
+
+      {schedule.length === 0 ? (
+        <p className="text-sm text-indigo-700 mt-2">{t('schedule.empty')}</p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {schedule.map((spin, i) => (
+            <li key={spin.id} className="flex items-center justify-between bg-white px-3 py-1 rounded-lg text-sm">
+              <span>
+                {t('schedule.item', { number: i + 1, date: formatDateTime(spin.at), seconds: spin.countdown })}
+              </span>
+              <button
+                onClick={() => onRemove(spin.id)}
+                className="text-red-500 hover:text-red-700"
+                title={t('schedule.remove')}
+              >
+                <X size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SchedulePanel;
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Settings, RotateCcw, X, Volume2 } from 'lucide-react';
+import type { EventSettings, Prize, SoundPreferences, SpinSettings } from '../types';
+import { DEFAULT_SETTINGS, SETTING_LIMITS } from '../lib/settings';
+import { SOUND_PACKS } from '../lib/sound';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../lib/useI18n';
+
+interface SettingsPanelProps {
+  settings: EventSettings;
+  prizes: Prize[];
+  onChange: (settings: EventSettings) => void;
+  onPrizesChange: (prizes: Prize[]) => void;
+  sound: SoundPreferences;
+  onSoundChange: (sound: SoundPreferences) => void;
+  onPreviewSound: () => void;
+  onClose: () => void;
+}
+
+// Cómo se muestra cada ajuste: scale convierte del valor guardado al mostrado
+interface SettingField {
+  key: keyof EventSettings;
+  label: MessageKey;
+  unit: MessageKey;
+  scale: number;
+  step: number;
+}
+
+const FIELDS: SettingField[] = [
+  { key: 'spinDuration', label: 'settings.spinDuration', unit: 'settings.units.seconds', scale: 1000, step: 0.5 },
+  { key: 'minSpins', label: 'settings.minSpins', unit: 'settings.units.spins', scale: 1, step: 1 },
+  { key: 'optionChangeSpeed', label: 'settings.optionChangeSpeed', unit: 'settings.units.milliseconds', scale: 1, step: 1 },
+  { key: 'confettiParticles', label: 'settings.confettiParticles', unit: 'settings.units.particles', scale: 1, step: 50 },
+  { key: 'spinVolume', label: 'settings.spinVolume', unit: 'settings.units.percent', scale: 0.01, step: 5 },
+  { key: 'winVolume', label: 'settings.winVolume', unit: 'settings.units.percent', scale: 0.01, step: 5 },
+  { key: 'divisions', label: 'settings.divisions', unit: 'settings.units.slices', scale: 1, step: 1 },
+];
+
+// Ajustes del evento y de cada premio: ritmo del giro, rebanadas y efectos
+function SettingsPanel({ settings, prizes, onChange, onPrizesChange, sound, onSoundChange, onPreviewSound, onClose }: SettingsPanelProps) {
+  const { t } = useI18n();
+  const [scope, setScope] = useState(''); // '' para el evento, o el identificador del premio
+  const prize = prizes.find(p => p.id === scope);
+
+  // Los premios no cambian las rebanadas: la ruleta es la misma para todo el evento
+  const fields = prize ? FIELDS.filter(field => field.key !== 'divisions') : FIELDS;
+
+  // Guardar un valor mostrado en la unidad del ajuste, dentro de su rango
+  const toStored = (field: SettingField, shown: number) => {
+    const { min, max } = SETTING_LIMITS[field.key];
+    return Math.min(max, Math.max(min, shown * field.scale));
+  };
+
+  // Cambiar un ajuste del evento o del premio elegido
+  const updateField = (field: SettingField, shown: number) => {
+    if (!Number.isFinite(shown)) return;
+    const value = toStored(field, shown);
+    const current = prize?.settings?.[field.key as keyof SpinSettings] ?? settings[field.key];
+    if (value === current) return;
+    if (!prize) {
+      onChange({ ...settings, [field.key]: value });
+      return;
+    }
+    onPrizesChange(prizes.map(p => (p.id === prize.id ? { ...p, settings: { ...p.settings, [field.key]: value } } : p)));
+  };
+
+  // Volver a usar el valor del evento en el premio elegido
+  const resetField = (key: keyof SpinSettings) => {
+    if (!prize) return;
+    const rest = { ...prize.settings };
+    delete rest[key];
+    onPrizesChange(prizes.map(p => (p.id === prize.id ? { ...p, settings: rest } : p)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[32rem] max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-green-800 flex items-center gap-2">
+            <Settings size={24} />
+            {t('settings.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Evento completo o un premio en particular */}
+        <label className="block text-sm font-semibold text-gray-700 mb-1">{t('settings.scope')}</label>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="w-full p-2 border rounded-lg mb-4 focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          <option value="">{t('settings.scopeEvent')}</option>
+          {prizes.map(p => (
+            <option key={p.id} value={p.id}>{t('settings.scopePrize', { name: p.name })}</option>
+          ))}
+        </select>
+        {prize && (
+          <p className="text-sm text-gray-600 mb-4">
+            {t('settings.prizeHint')}
+          </p>
+        )}
+
+        {fields.map(field => {
+          const key = field.key as keyof SpinSettings;
+          const overridden = prize?.settings?.[key] !== undefined;
+          const value = (prize?.settings?.[key] ?? settings[field.key]) / field.scale;
+          const { min, max } = SETTING_LIMITS[field.key];
+          return (
+            <div key={field.key} className="flex items-center justify-between gap-2 py-2 border-b">
+              <span className={`text-sm ${prize && !overridden ? 'text-gray-500' : 'text-gray-800 font-semibold'}`}>
+                {t(field.label)}
+              </span>
+              <span className="flex items-center gap-2">
+                {/* Se aplica al salir del campo para poder escribir valores fuera de rango a medias */}
+                <input
+                  key={`${scope}-${field.key}-${value}`}
+                  type="number"
+                  min={min / field.scale}
+                  max={max / field.scale}
+                  step={field.step}
+                  defaultValue={Number(value.toFixed(2))}
+                  onBlur={(e) => updateField(field, Number(e.target.value))}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-24 p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <span className="w-20 text-xs text-gray-500">{t(field.unit)}</span>
+                {prize && (
+                  <button
+                    onClick={() => resetField(key)}
+                    disabled={!overridden}
+                    className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                    title={t('settings.useEventValue')}
+                  >
+                    <RotateCcw size={16} />
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+
+        {/* Sonido: común a todo el evento */}
+        {!prize && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-lg border">
+            <h3 className="text-sm font-semibold text-gray-800 mb-2 flex items-center gap-2">
+              <Volume2 size={16} />
+              {t('settings.sound')}
+            </h3>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-sm text-gray-700">{t('settings.soundPack')}</span>
+              <select
+                value={sound.pack}
+                onChange={(e) => onSoundChange({ ...sound, pack: e.target.value })}
+                className="p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                {SOUND_PACKS.map(pack => (
+                  <option key={pack.id} value={pack.id}>{t(pack.name)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-sm text-gray-700">{t('settings.masterVolume')}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(sound.volume * 100)}
+                onChange={(e) => onSoundChange({ ...sound, volume: Number(e.target.value) / 100 })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={sound.muted}
+                  onChange={(e) => onSoundChange({ ...sound, muted: e.target.checked })}
+                />
+                {t('settings.mute')}
+              </label>
+              <button
+                onClick={onPreviewSound}
+                disabled={sound.muted}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {t('settings.preview')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!prize && (
+          <button
+            onClick={() => onChange(DEFAULT_SETTINGS)}
+            className="mt-4 px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 transition-colors flex items-center gap-2"
+          >
+            <RotateCcw size={16} />
+            {t('settings.reset')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SettingsPanel;
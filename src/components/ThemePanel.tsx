@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Palette, Plus, RotateCcw, Upload, Download, X } from 'lucide-react';
+import type { Theme, WheelColor } from '../types';
+import { DEFAULT_THEME, FONT_OPTIONS, parseTheme, readImageFile } from '../lib/theme';
+import { downloadFile } from '../lib/historyExport';
+import { useI18n } from '../lib/useI18n';
+
+interface ThemePanelProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+// Campo de imagen: vista previa, subir archivo o quitarla
+function ImageField({ label, value, onChange, onError }: {
+  label: string;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  onError: (message: string) => void;
+}) {
+  const { t, errorMessage } = useI18n();
+
+  // Leer la imagen elegida
+  const loadImage = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(await readImageFile(file));
+    } catch (e) {
+      onError(errorMessage(e));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 py-2 border-b">
+      <span className="text-sm font-semibold text-gray-800">{label}</span>
+      <span className="flex items-center gap-2">
+        {value && <img src={value} alt="" className="w-10 h-10 object-cover rounded border" />}
+        <label className="px-2 py-1 text-sm bg-white border border-blue-600 text-blue-700 rounded cursor-pointer hover:bg-blue-50">
+          {t('theme.chooseImage')}
+          <input type="file" accept="image/*" className="hidden" onChange={(e) => loadImage(e.target.files?.[0])} />
+        </label>
+        <button
+          onClick={() => onChange(null)}
+          disabled={!value}
+          className="text-red-500 hover:text-red-700 disabled:text-gray-300"
+          title={t('theme.removeImage')}
+        >
+          <X size={16} />
+        </button>
+      </span>
+    </div>
+  );
+}
+
+// Editor del tema: título, centro, fondo, colores de la ruleta y tipografía
+function ThemePanel({ theme, onChange, onClose }: ThemePanelProps) {
+  const { t, errorMessage } = useI18n();
+  const [error, setError] = useState(''); // Error al leer imágenes o archivos de tema
+
+  // Cambiar un campo del tema
+  const update = <K extends keyof Theme>(key: K, value: Theme[K]) => {
+    onChange({ ...theme, [key]: value });
+  };
+
+  // Cambiar un color de la paleta
+  const updateColor = (index: number, color: Partial<WheelColor>) => {
+    update('palette', theme.palette.map((c, i) => (i === index ? { ...c, ...color } : c)));
+  };
+
+  // Cargar un tema completo desde un archivo JSON
+  const importTheme = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      onChange(parseTheme(await file.text()));
+    } catch (e) {
+      setError(errorMessage(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-xl w-[32rem] max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold text-green-800 flex items-center gap-2">
+            <Palette size={24} />
+            {t('theme.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X size={24} />
+          </button>
+        </div>
+
+        {error && <p className="text-red-600 font-semibold mb-4">{error}</p>}
+
+        {/* Textos */}
+        <label className="block text-sm font-semibold text-gray-700 mb-1">{t('theme.eventTitle')}</label>
+        <input
+          value={theme.title}
+          onChange={(e) => update('title', e.target.value)}
+          className="w-full p-2 border rounded-lg mb-3 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <label className="block text-sm font-semibold text-gray-700 mb-1">{t('theme.centerText')}</label>
+        <input
+          value={theme.centerText}
+          onChange={(e) => update('centerText', e.target.value)}
+          className="w-full p-2 border rounded-lg mb-3 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+
+        {/* Imágenes */}
+        <ImageField label={t('theme.logo')} value={theme.logo} onChange={(logo) => update('logo', logo)} onError={setError} />
+        <ImageField label={t('theme.background')} value={theme.background} onChange={(background) => update('background', background)} onError={setError} />
+
+        {/* Tipografía */}
+        <div className="flex items-center justify-between gap-2 py-2 border-b">
+          <span className="text-sm font-semibold text-gray-800">{t('theme.font')}</span>
+          <select
+            value={theme.fontFamily}
+            onChange={(e) => update('fontFamily', e.target.value)}
+            className="p-1 border rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {FONT_OPTIONS.map(font => (
+              <option key={font.label} value={font.value} style={{ fontFamily: font.value || undefined }}>{t(font.label)}</option>
+            ))}
+            {!FONT_OPTIONS.some(font => font.value === theme.fontFamily) && (
+              <option value={theme.fontFamily}>{theme.fontFamily}</option>
+            )}
+          </select>
+        </div>
+
+        {/* Paleta de la ruleta */}
+        <h3 className="text-sm font-semibold text-gray-800 mt-3 mb-1">{t('theme.palette')}</h3>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {theme.palette.map((color, i) => (
+            <span key={i} className="flex items-center gap-1 border rounded p-1">
+              <input type="color" value={color.fill} onChange={(e) => updateColor(i, { fill: e.target.value })} title={t('theme.sliceColor')} />
+              <input type="color" value={color.text} onChange={(e) => updateColor(i, { text: e.target.value })} title={t('theme.textColor')} />
+              <button
+                onClick={() => update('palette', theme.palette.filter((_, j) => j !== i))}
+                disabled={theme.palette.length <= 1}
+                className="text-red-500 hover:text-red-700 disabled:text-gray-300"
+                title={t('theme.removeColor')}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+          <button
+            onClick={() => update('palette', [...theme.palette, { fill: '#ffffff', text: '#000000' }])}
+            className="px-2 bg-green-600 text-white rounded hover:bg-green-700"
+            title={t('theme.addColor')}
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">{t('theme.paletteHint')}</p>
+
+        {/* Archivo de tema */}
+        <div className="flex flex-wrap gap-2">
+          <label className="px-4 py-2 bg-white text-blue-700 border border-blue-600 rounded-full hover:bg-blue-50 cursor-pointer flex items-center gap-2">
+            <Upload size={16} />
+            {t('theme.load')}
+            <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => importTheme(e.target.files?.[0])} />
+          </label>
+          <button
+            onClick={() => downloadFile(JSON.stringify(theme, null, 2), t('theme.filename'), 'application/json')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Download size={16} />
+            {t('theme.save')}
+          </button>
+          <button
+            onClick={() => onChange(DEFAULT_THEME)}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-full hover:bg-gray-300 flex items-center gap-2"
+          >
+            <RotateCcw size={16} />
+            {t('theme.reset')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ThemePanel;
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Download, ShieldCheck } from 'lucide-react';
+import type { VerifiableSession } from '../types';
+import { createBundle } from '../lib/verifiable';
+import { downloadFile } from '../lib/historyExport';
+import { useI18n } from '../lib/useI18n';
+
+interface VerifiablePanelProps {
+  verifiable: VerifiableSession | null;
+  canActivate: boolean;
+  onActivate: () => Promise<void>;
+  onReveal: () => void;
+  onExit: () => void;
+}
+
+// Sección del panel de opciones para el sorteo verificable
+function VerifiablePanel({ verifiable, canActivate, onActivate, onReveal, onExit }: VerifiablePanelProps) {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // Activar; sin Web Crypto (fuera de https o localhost) no se puede generar el compromiso
+  const activate = async () => {
+    setBusy(true);
+    try {
+      await onActivate();
+      setError('');
+    } catch (e) {
+      console.error('No se pudo activar el modo verificable', e);
+      setError(t('verifiable.cryptoUnavailable'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!verifiable) {
+    return (
+      <div className="mb-4 p-4 bg-emerald-50 rounded-lg border border-emerald-200">
+        <h3 className="text-lg font-semibold text-emerald-800 mb-2 flex items-center gap-2">
+          <ShieldCheck size={20} />
+          {t('verifiable.title')}
+        </h3>
+        <p className="text-sm text-emerald-700 mb-2">
+          {t('verifiable.description')}
+        </p>
+        {error && <p className="text-sm text-red-600 font-semibold mb-2">{error}</p>}
+        <button
+          onClick={activate}
+          disabled={!canActivate || busy}
+          className="w-full py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {t('verifiable.activate')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-4 bg-emerald-50 rounded-lg border border-emerald-200">
+      <h3 className="text-lg font-semibold text-emerald-800 mb-2 flex items-center gap-2">
+        <ShieldCheck size={20} />
+        {t('verifiable.activeTitle')}
+      </h3>
+      <p className="text-xs text-emerald-700">{t('verifiable.commitment')}</p>
+      <p className="text-xs font-mono break-all mb-2">{verifiable.commitment}</p>
+      <p className="text-xs text-emerald-700">{t('verifiable.listHash', { count: verifiable.participants.length })}</p>
+      <p className="text-xs font-mono break-all mb-2">{verifiable.listHash}</p>
+      <p className="text-sm text-emerald-700 mb-2">{t('verifiable.draws', { count: verifiable.draws.length })}</p>
+
+      {verifiable.revealed ? (
+        <>
+          <p className="text-xs text-emerald-700">{t('verifiable.revealedSeed')}</p>
+          <p className="text-xs font-mono break-all mb-2">{verifiable.seed}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(JSON.stringify(createBundle(verifiable), null, 2), t('verifiable.bundleFilename'), 'application/json')}
+              className="flex-1 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <Download size={18} />
+              {t('verifiable.bundle')}
+            </button>
+            <button
+              onClick={onExit}
+              className="flex-1 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              {t('verifiable.exit')}
+            </button>
+          </div>
+          <a href="/verificar.html" target="_blank" rel="noreferrer" className="block mt-2 text-sm text-emerald-700 underline">
+            {t('verifiable.openVerifier')}
+          </a>
+        </>
+      ) : (
+        <button
+          onClick={onReveal}
+          className="w-full py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+        >
+          {t('verifiable.reveal')}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default VerifiablePanel;
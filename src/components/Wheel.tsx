@@ -0,0 +1,104 @@
+import { memo, type ReactNode } from 'react';
+import type { WheelSegment } from '../lib/wheelGeometry';
+import type { WheelColor } from '../types';
+import { DEFAULT_THEME } from '../lib/theme';
+
+interface WheelProps {
+  segments: WheelSegment[];
+  rotation: number;
+  showLabels: boolean;
+  palette?: WheelColor[]; // Colores de las rebanadas, los del tema por defecto si falta
+  sizeClass?: string; // Ancho y alto en clases de Tailwind
+  onCenterClick?: () => void;
+  children?: ReactNode;
+}
+
+const RADIUS = 100;
+const LABEL_RADIUS = 94;
+const MAX_LABEL_LENGTH = 22;
+
+// Punto sobre el borde para un ángulo medido en sentido horario desde arriba
+const pointAt = (angle: number, radius: number) => {
+  const radians = (angle * Math.PI) / 180;
+  return `${(Math.sin(radians) * radius).toFixed(3)} ${(-Math.cos(radians) * radius).toFixed(3)}`;
+};
+
+// Trazo SVG de una rebanada entre dos ángulos
+const slicePath = (startAngle: number, endAngle: number) => {
+  const largeArc = endAngle - startAngle > 180 ? 1 : 0;
+  return `M 0 0 L ${pointAt(startAngle, RADIUS)} A ${RADIUS} ${RADIUS} 0 ${largeArc} 1 ${pointAt(endAngle, RADIUS)} Z`;
+};
+
+// Color de la rebanada i evitando que la última repita el color de la primera
+const colorIndex = (i: number, total: number, colors: number) => {
+  const index = i % colors;
+  return i === total - 1 && i > 0 && index === 0 && colors > 1 ? 1 : index;
+};
+
+// Tamaño de letra según el ancho de la rebanada a media altura
+const fontSizeFor = (sweep: number) => {
+  return Math.max(2.5, Math.min(9, ((2 * Math.PI * 65 * sweep) / 360) * 0.7));
+};
+
+// Recortar nombres largos para que quepan en la rebanada
+const shortLabel = (label: string) => {
+  return label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+};
+
+// Ruleta dibujada en SVG con una rebanada por opción o grupo
+const SegmentsSvg = memo(function SegmentsSvg({ segments, showLabels, palette }: { segments: WheelSegment[]; showLabels: boolean; palette: WheelColor[] }) {
+  const colorAt = (i: number) => palette[colorIndex(i, segments.length, palette.length)];
+
+  return (
+    <svg viewBox="-100 -100 200 200" className="absolute inset-0 w-full h-full">
+      {segments.length === 1 ? (
+        <circle r={RADIUS} fill={palette[0].fill} />
+      ) : (
+        segments.map((segment, i) => (
+          <path
+            key={segment.start}
+            d={slicePath(segment.startAngle, segment.startAngle + segment.sweep)}
+            fill={colorAt(i).fill}
+            stroke="rgba(0, 0, 0, 0.15)"
+            strokeWidth={0.2}
+          />
+        ))
+      )}
+      {showLabels && segments.map((segment, i) => (
+        <text
+          key={segment.start}
+          transform={`rotate(${segment.startAngle + segment.sweep / 2 - 90})`}
+          x={LABEL_RADIUS}
+          y={0}
+          dominantBaseline="middle"
+          textAnchor="end"
+          fontSize={fontSizeFor(segment.sweep)}
+          fontWeight="bold"
+          fill={colorAt(i).text}
+        >
+          {shortLabel(segment.label)}
+        </text>
+      ))}
+    </svg>
+  );
+});
+
+// Ruleta con rebanadas, rotación y círculo central
+function Wheel({ segments, rotation, showLabels, palette = DEFAULT_THEME.palette, sizeClass = 'w-[560px] h-[560px]', onCenterClick, children }: WheelProps) {
+  return (
+    <div
+      className={`${sizeClass} rounded-full wheel-gradient wheel-shadow relative transform transition-transform duration-100`}
+      style={{ transform: `rotate(${rotation}deg)` }}
+    >
+      {segments.length > 0 && <SegmentsSvg segments={segments} showLabels={showLabels} palette={palette} />}
+
+      {/* Círculo central */}
+      <div className="absolute inset-1/3 center-circle rounded-full flex items-center justify-center cursor-pointer"
+           onClick={onCenterClick}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default Wheel;
@@ -0,0 +1,16 @@
+import type { Theme } from '../types';
+
+// Centro de la ruleta: el logo del tema o, si no hay, su texto
+function WheelCenter({ theme }: { theme: Theme }) {
+  return (
+    <div className="center-logo overflow-hidden">
+      {theme.logo ? (
+        <img src={theme.logo} alt={theme.centerText} className="w-full h-full object-contain rounded-full" />
+      ) : (
+        <span className="text-lg font-bold text-green-800">{theme.centerText}</span>
+      )}
+    </div>
+  );
+}
+
+export default WheelCenter;
@@ -0,0 +1,112 @@
+import type { AuditAction, AuditEvent, PublicLock } from '../types';
+import { GAME_MODES } from './gameModes';
+import { SKIP_REASON_MESSAGES, type ScheduleSkipReason } from './schedule';
+import { translate, type Locale, type MessageKey } from './i18n';
+import { generateSeed, sha256Hex } from './verifiable';
+
+// Hash anterior del primer evento del registro
+export const GENESIS_HASH = '0'.repeat(64);
+
+// PIN mínimo para bloquear el sorteo público
+export const MIN_PIN_LENGTH = 4;
+
+// Texto de cada acción en el registro, con los datos del evento como parámetros
+const ACTION_MESSAGES: Record<AuditAction, MessageKey> = {
+  entriesAdded: 'audit.entriesAdded',
+  entryRemoved: 'audit.entryRemoved',
+  entriesCleared: 'audit.entriesCleared',
+  eliminatedRestored: 'audit.eliminatedRestored',
+  prizesChanged: 'audit.prizesChanged',
+  settingsChanged: 'audit.settingsChanged',
+  gameModeChanged: 'audit.gameModeChanged',
+  categoryRulesChanged: 'audit.categoryRulesChanged',
+  predefinedWinnerSet: 'audit.predefinedWinnerSet',
+  verifiableActivated: 'audit.verifiableActivated',
+  seedRevealed: 'audit.seedRevealed',
+  drawUndone: 'audit.drawUndone',
+  absentMarked: 'audit.absentMarked',
+  locked: 'audit.locked',
+  unlocked: 'audit.unlocked',
+  unlockFailed: 'audit.unlockFailed',
+  scheduledSpinRun: 'audit.scheduledSpinRun',
+  scheduledSpinSkipped: 'audit.scheduledSpinSkipped',
+};
+
+// Hash de un evento: cubre el hash anterior, así cambiar o borrar un evento rompe todos los siguientes
+const hashEvent = (event: Omit<AuditEvent, 'hash'>): Promise<string> => {
+  return sha256Hex(JSON.stringify([event.previousHash, event.sequence, event.timestamp, event.action, event.details]));
+};
+
+// Agregar un evento al final del registro, encadenado al último
+export const appendAuditEvent = async (
+  trail: AuditEvent[],
+  action: AuditAction,
+  details: AuditEvent['details'] = {}
+): Promise<AuditEvent[]> => {
+  const last = trail[trail.length - 1];
+  const event = {
+    sequence: (last?.sequence ?? 0) + 1,
+    timestamp: Date.now(),
+    action,
+    details,
+    previousHash: last?.hash ?? GENESIS_HASH,
+  };
+  return [...trail, { ...event, hash: await hashEvent(event) }];
+};
+
+// Comprobar la cadena completa; devuelve la secuencia del primer evento alterado o null si está íntegra
+export const verifyAuditTrail = async (trail: AuditEvent[]): Promise<number | null> => {
+  let previousHash = GENESIS_HASH;
+  for (const [i, event] of trail.entries()) {
+    if (event.sequence !== i + 1 || event.previousHash !== previousHash || event.hash !== (await hashEvent(event))) {
+      return event.sequence;
+    }
+    previousHash = event.hash;
+  }
+  return null;
+};
+
+// Descripción de un evento en el idioma elegido
+export const describeAuditEvent = (locale: Locale, event: AuditEvent): string => {
+  const params = { ...event.details };
+  if (event.action === 'gameModeChanged') {
+    const mode = GAME_MODES.find(option => option.id === params.mode);
+    if (mode) params.mode = translate(locale, mode.label);
+  }
+  if (event.action === 'categoryRulesChanged') {
+    if (!params.filter) params.filter = translate(locale, 'audit.allCategories');
+    if (!params.quota) params.quota = translate(locale, 'categories.noLimit');
+  }
+  if (event.action === 'scheduledSpinSkipped') {
+    const reason = SKIP_REASON_MESSAGES[params.reason as ScheduleSkipReason];
+    if (reason) params.reason = translate(locale, reason);
+  }
+  return translate(locale, ACTION_MESSAGES[event.action], params);
+};
+
+// Hash de un PIN con su sal
+const hashPin = (pin: string, salt: string): Promise<string> => {
+  return sha256Hex(`${salt}:${pin}`);
+};
+
+// Bloqueo nuevo con el PIN del operador
+export const createPublicLock = async (pin: string): Promise<PublicLock> => {
+  const salt = generateSeed();
+  return { pinHash: await hashPin(pin, salt), salt, lockedAt: Date.now() };
+};
+
+// El PIN ingresado es el del bloqueo
+export const checkPin = async (lock: PublicLock, pin: string): Promise<boolean> => {
+  return (await hashPin(pin, lock.salt)) === lock.pinHash;
+};
+
+// Registro guardado válido, p. ej. al cargar una sesión anterior
+export const normalizeAuditTrail = (stored?: AuditEvent[]): AuditEvent[] => {
+  return Array.isArray(stored) ? stored : [];
+};
+
+// Claves cuyo valor cambió entre dos objetos, para describir un cambio de ajustes
+export const changedKeys = <T extends object>(before: Partial<T>, after: Partial<T>): string[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof T & string)[]);
+  return [...keys].filter(key => before[key] !== after[key]);
+};
@@ -0,0 +1,79 @@
+import type { CategoryRules, DrawRecord, Entry } from '../types';
+import { isWinningRecord } from './prizes';
+
+// Sin filtro ni cupos: todas las categorías entran en cada giro
+export const DEFAULT_CATEGORY_RULES: CategoryRules = {
+  filter: [],
+  maxWinners: null,
+};
+
+// Categoría de los participantes que no tienen una
+export const UNCATEGORIZED = '';
+
+// Participantes y ganadores de una categoría
+export interface CategoryCount {
+  category: string;
+  total: number;
+  available: number; // Todavía no eliminados
+  winners: number; // Ganadores sin contar ausentes
+}
+
+// Categoría de un participante, sin espacios sobrantes
+export const categoryOf = (entry: Pick<Entry, 'category'>): string => {
+  return entry.category?.trim() ?? UNCATEGORIZED;
+};
+
+// Ganadores de cada categoría; los ausentes y los eliminados del último en pie no ocupan cupo
+export const winnersByCategory = (history: DrawRecord[]): Map<string, number> => {
+  const winners = new Map<string, number>();
+  for (const record of history) {
+    if (!isWinningRecord(record) || record.category === undefined) continue;
+    winners.set(record.category, (winners.get(record.category) ?? 0) + 1);
+  }
+  return winners;
+};
+
+// Conteos por categoría en orden alfabético, con los sin categoría al final
+export const countByCategory = (entries: Entry[], eliminated: Set<string>, history: DrawRecord[]): CategoryCount[] => {
+  const counts = new Map<string, CategoryCount>();
+  for (const entry of entries) {
+    const category = categoryOf(entry);
+    const count = counts.get(category) ?? { category, total: 0, available: 0, winners: 0 };
+    count.total++;
+    if (!eliminated.has(entry.id)) count.available++;
+    counts.set(category, count);
+  }
+  for (const [category, winners] of winnersByCategory(history)) {
+    const count = counts.get(category);
+    if (count) count.winners = winners;
+  }
+  return [...counts.values()].sort((a, b) => {
+    if (a.category === UNCATEGORIZED) return 1;
+    if (b.category === UNCATEGORIZED) return -1;
+    return a.category.localeCompare(b.category);
+  });
+};
+
+// La categoría ya tiene todos los ganadores que permite el cupo; los sin categoría no tienen cupo
+export const quotaReached = (category: string, rules: CategoryRules, winners: Map<string, number>): boolean => {
+  return rules.maxWinners !== null && category !== UNCATEGORIZED && (winners.get(category) ?? 0) >= rules.maxWinners;
+};
+
+// Participantes que pueden salir en el próximo giro según el filtro y los cupos
+export const eligibleEntries = (entries: Entry[], rules: CategoryRules, winners: Map<string, number>): Entry[] => {
+  if (rules.filter.length === 0 && rules.maxWinners === null) return entries;
+  const filter = new Set(rules.filter);
+  return entries.filter(entry => {
+    const category = categoryOf(entry);
+    return (filter.size === 0 || filter.has(category)) && !quotaReached(category, rules, winners);
+  });
+};
+
+// Reglas completas y válidas, p. ej. al cargar una sesión anterior
+export const normalizeCategoryRules = (stored?: Partial<CategoryRules>): CategoryRules => {
+  const maxWinners = stored?.maxWinners;
+  return {
+    filter: Array.isArray(stored?.filter) ? stored.filter.filter(category => typeof category === 'string') : [],
+    maxWinners: typeof maxWinners === 'number' && Number.isInteger(maxWinners) && maxWinners > 0 ? maxWinners : null,
+  };
+};
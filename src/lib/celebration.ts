@@ -0,0 +1,56 @@
+import confetti from 'canvas-confetti';
+
+// Activar confetti cuando hay un ganador; count es la cantidad total de partículas
+export const triggerConfetti = (count = 400) => {
+  if (count <= 0) return;
+  const defaults = {
+    origin: { y: 0.7 },
+    spread: 90,
+  };
+
+  function fire(particleRatio: number, opts: any) {
+    confetti({
+      ...defaults,
+      ...opts,
+      particleCount: Math.floor(count * particleRatio)
+    });
+  }
+
+  // Múltiples explosiones de confetti con diferentes configuraciones
+  fire(0.25, {
+    spread: 26,
+    startVelocity: 55,
+  });
+
+  fire(0.2, {
+    spread: 60,
+  });
+
+  fire(0.35, {
+    spread: 100,
+    decay: 0.91,
+    scalar: 0.8
+  });
+
+  fire(0.1, {
+    spread: 120,
+    startVelocity: 25,
+    decay: 0.92,
+    scalar: 1.2
+  });
+
+  fire(0.1, {
+    spread: 120,
+    startVelocity: 45,
+  });
+
+  // Confetti adicional con delay
+  setTimeout(() => {
+    fire(0.25, {
+      spread: 100,
+      startVelocity: 35,
+      decay: 0.91,
+      scalar: 1.1
+    });
+  }, 200);
+};
@@ -0,0 +1,183 @@
+import type { AuditEvent, DrawRecord, Entry, Prize, PublicLock, VerifiableSession } from '../types';
+import { isWinningRecord, prizeAssignments } from './prizes';
+import { describeAuditEvent } from './audit';
+import { formatDateTime, translate, type Locale, type MessageKey, type MessageParams } from './i18n';
+
+// Datos de la sesión que se vuelcan en el acta
+export interface CertificateData {
+  title: string; // Nombre del evento
+  place: string;
+  witnesses: string[]; // Una línea de firma por testigo
+  entries: Entry[];
+  prizes: Prize[];
+  history: DrawRecord[];
+  verifiable: VerifiableSession | null;
+  audit: AuditEvent[];
+  auditBrokenAt: number | null; // Primer evento alterado del registro, o null si la cadena está íntegra
+  publicLock: PublicLock | null;
+  generatedAt: number;
+}
+
+// Líneas de firma en blanco cuando no se cargaron testigos
+export const BLANK_SIGNATURES = 3;
+
+// Caracteres del hash de cada evento de auditoría que se imprimen en el acta
+const AUDIT_HASH_CHARS = 16;
+
+const STYLES = `
+  @page { size: A4; margin: 20mm; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; line-height: 1.4; }
+  h1 { text-align: center; text-transform: uppercase; letter-spacing: 0.1em; margin-bottom: 0; }
+  h2 { text-align: center; font-weight: normal; margin-top: 0.25em; }
+  h3 { border-bottom: 1px solid #999; padding-bottom: 0.2em; margin-top: 1.5em; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+  th, td { text-align: left; padding: 0.3em 0.4em; border-bottom: 1px solid #ddd; vertical-align: top; }
+  .mono { font-family: 'Courier New', monospace; word-break: break-all; font-size: 0.8em; }
+  .signatures { display: flex; flex-wrap: wrap; gap: 2em 3em; margin-top: 4em; page-break-inside: avoid; }
+  .signature { flex: 1 1 40%; text-align: center; border-top: 1px solid #111; padding-top: 0.3em; margin-top: 3em; }
+  .footer { margin-top: 3em; font-size: 0.8em; color: #555; text-align: center; }
+`;
+
+// Escapar texto para insertarlo en HTML
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Documento HTML imprimible del acta, en el idioma elegido
+export const buildCertificateHtml = (data: CertificateData, locale: Locale): string => {
+  const t = (key: MessageKey, params?: MessageParams) => escapeHtml(translate(locale, key, params));
+  const date = (timestamp: number) => escapeHtml(formatDateTime(locale, timestamp));
+  const memberIds = new Map(data.entries.map(entry => [entry.id, entry.memberId ?? '']));
+  const tickets = data.entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const first = data.history[0];
+  const last = data.history[data.history.length - 1];
+
+  // Fila de un giro: número, ganador, nº de socio y hora
+  const drawRow = (record: DrawRecord, extra = '') => `
+    <tr>
+      <td>${record.sequence}</td>
+      <td>${escapeHtml(record.winner)}</td>
+      <td>${escapeHtml(memberIds.get(record.winnerId) ?? '')}</td>
+      <td>${date(record.timestamp)}</td>
+      ${extra}
+    </tr>`;
+  const drawHeader = (extra = '') => `
+    <tr>
+      <th>${t('certificate.draw')}</th>
+      <th>${t('certificate.winner')}</th>
+      <th>${t('certificate.memberId')}</th>
+      <th>${t('certificate.time')}</th>
+      ${extra}
+    </tr>`;
+
+  // Ganadores por premio en el orden del catálogo, o todos en orden si no hay premios
+  const winners = data.prizes.length > 0
+    ? prizeAssignments(data.prizes, data.history).map(({ prize, winners }) => `
+      <h3>${escapeHtml(prize.name)} (${t('certificate.awarded', { count: winners.length, quantity: prize.quantity })})</h3>
+      ${winners.length > 0
+        ? `<table>${drawHeader()}${winners.map(record => drawRow(record)).join('')}</table>`
+        : `<p>${t('certificate.noWinners')}</p>`}`).join('')
+    : `
+      <h3>${t('certificate.winners')}</h3>
+      <table>${drawHeader()}${data.history.filter(isWinningRecord).map(record => drawRow(record)).join('')}</table>`;
+
+  // Ausentes, ganadores que ya habían salido antes y ganadores predefinidos por el operador
+  const incidents = data.history.filter(record => record.absent || record.redraw || record.predefined);
+  const incidentRows = incidents.map(record => {
+    const notes = [
+      record.absent ? t('certificate.absent') : '',
+      record.redraw ? t('certificate.repeated') : '',
+      record.predefined ? t('certificate.predefined') : '',
+    ].filter(Boolean).join(' · ');
+    return drawRow(record, `<td>${escapeHtml(record.prizeName ?? '')}</td><td>${notes}</td>`);
+  }).join('');
+
+  const verifiable = data.verifiable ? `
+    <h3>${t('certificate.verifiable')}</h3>
+    <p>${t('certificate.commitment')}<br><span class="mono">${escapeHtml(data.verifiable.commitment)}</span></p>
+    <p>${t('certificate.listHash')}<br><span class="mono">${escapeHtml(data.verifiable.listHash)}</span></p>
+    ${data.verifiable.revealed
+      ? `<p>${t('certificate.seed')}<br><span class="mono">${escapeHtml(data.verifiable.seed)}</span></p>`
+      : `<p>${t('certificate.seedPending')}</p>`}` : '';
+
+  // Registro de auditoría con el final de cada hash, suficiente para cotejarlo con el archivo exportado
+  const auditRows = data.audit.map(event => `
+    <tr>
+      <td>${event.sequence}</td>
+      <td>${date(event.timestamp)}</td>
+      <td>${escapeHtml(describeAuditEvent(locale, event))}</td>
+      <td class="mono">${escapeHtml(event.hash.slice(0, AUDIT_HASH_CHARS))}</td>
+    </tr>`).join('');
+  const audit = `
+    <h3>${t('certificate.audit')}</h3>
+    <p>${data.publicLock
+      ? t('certificate.locked', { date: formatDateTime(locale, data.publicLock.lockedAt) })
+      : t('certificate.unlocked')}</p>
+    ${data.audit.length > 0 ? `
+      <p>${data.auditBrokenAt === null
+        ? t('certificate.auditIntact', { hash: data.audit[data.audit.length - 1].hash })
+        : `<strong>${t('certificate.auditBroken', { sequence: data.auditBrokenAt })}</strong>`}</p>
+      <table>
+        <tr>
+          <th>#</th>
+          <th>${t('certificate.time')}</th>
+          <th>${t('certificate.auditEvent')}</th>
+          <th>${t('certificate.auditHash')}</th>
+        </tr>
+        ${auditRows}
+      </table>` : `<p>${t('certificate.auditEmpty')}</p>`}`;
+
+  const signatures = (data.witnesses.length > 0 ? data.witnesses : Array<string>(BLANK_SIGNATURES).fill(''))
+    .map(name => `<div class="signature">${name ? escapeHtml(name) : t('certificate.signature')}</div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${t('certificate.heading')} - ${escapeHtml(data.title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <h1>${t('certificate.heading')}</h1>
+  <h2>${escapeHtml(data.title)}</h2>
+
+  <p>
+    ${data.place ? `${t('certificate.place')} <strong>${escapeHtml(data.place)}</strong><br>` : ''}
+    ${first && last ? `${t('certificate.period', { start: formatDateTime(locale, first.timestamp), end: formatDateTime(locale, last.timestamp) })}<br>` : ''}
+    ${t('certificate.participants', { count: data.entries.length, tickets })}<br>
+    ${t('certificate.draws', { count: data.history.length })}
+  </p>
+
+  ${winners}
+
+  <h3>${t('certificate.incidents')}</h3>
+  ${incidents.length > 0
+    ? `<table>${drawHeader(`<th>${t('certificate.prize')}</th><th>${t('certificate.notes')}</th>`)}${incidentRows}</table>`
+    : `<p>${t('certificate.noIncidents')}</p>`}
+
+  ${verifiable}
+
+  ${audit}
+
+  <div class="signatures">${signatures}</div>
+
+  <p class="footer">${t('certificate.generated', { date: formatDateTime(locale, data.generatedAt) })}</p>
+</body>
+</html>`;
+};
+
+// Abrir el acta en una ventana nueva con el diálogo de impresión (permite guardarla como PDF)
+export const printCertificate = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
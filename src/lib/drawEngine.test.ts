@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../types';
+import { createSeededRng } from './rng';
+import { createEntry } from './entries';
+import { createPrize } from './prizes';
+import { checkWeightedFairness } from './fairness';
+import {
+  createDrawEngine,
+  createDrawState,
+  drawPool,
+  markDrawAbsent,
+  pickEntry,
+  restoreKnockedOut,
+  undoDraw,
+  type DrawState,
+} from './drawEngine';
+
+const seeded = () => createSeededRng(new Uint32Array([1, 2, 3, 4]));
+
+const names = (entries: Entry[]) => entries.map(entry => entry.value);
+
+const people = () => [createEntry('Ana'), createEntry('Luis', 3), createEntry('Marta'), createEntry('Pedro', 2)];
+
+// Aplicar `count` giros y devolver el estado final
+const drawTimes = (state: Partial<DrawState>, count: number) => {
+  const engine = createDrawEngine(state, seeded());
+  for (let i = 0; i < count; i++) engine.draw();
+  return engine.snapshot();
+};
+
+describe('createDrawEngine', () => {
+  it('load reemplaza la lista y empieza de cero', () => {
+    const engine = createDrawEngine({}, seeded());
+    engine.load(people());
+    engine.draw();
+    const entries = [createEntry('Sofía'), createEntry('Tomás')];
+    engine.load(entries);
+    expect(engine.snapshot()).toMatchObject({ entries, eliminatedIds: [], history: [], predefinedWinner: '' });
+    expect(engine.pool()).toEqual(entries);
+  });
+
+  it('eliminateWinner saca al ganador de la ruleta', () => {
+    const engine = createDrawEngine({ gameMode: 'eliminateWinner' }, seeded());
+    engine.load(people());
+    const step = engine.draw();
+    expect(step?.records).toHaveLength(1);
+    expect(engine.snapshot().eliminatedIds).toEqual([step?.winner.id]);
+    expect(engine.pool()).toHaveLength(3);
+
+    for (let i = 0; i < 3; i++) engine.draw();
+    expect(engine.pool()).toHaveLength(0);
+    expect(engine.draw()).toBeNull();
+    expect(new Set(engine.snapshot().history.map(record => record.winnerId)).size).toBe(4);
+  });
+
+  it('keepWinner deja al ganador participando y marca las repeticiones', () => {
+    const state = drawTimes({ entries: people(), gameMode: 'keepWinner' }, 30);
+    expect(state.eliminatedIds).toEqual([]);
+    expect(state.history).toHaveLength(30);
+    const repeated = state.history.filter((record, i) => state.history.slice(0, i).some(prev => prev.winnerId === record.winnerId));
+    expect(state.history.filter(record => record.redraw)).toEqual(repeated);
+  });
+
+  it('lastStanding deja fuera a uno por giro hasta que queda el ganador', () => {
+    const engine = createDrawEngine({ gameMode: 'lastStanding' }, seeded());
+    const entries = people();
+    engine.load(entries);
+    expect(engine.draw()?.records[0].knockedOut).toBe(true);
+    expect(engine.draw()?.records[0].knockedOut).toBe(true);
+
+    const final = engine.draw();
+    expect(final?.records).toHaveLength(2);
+    expect(final?.records[1].survivor).toBe(true);
+    expect(final?.winner.id).toBe(final?.records[1].winnerId);
+    expect(engine.pool()).toHaveLength(0);
+    expect(engine.draw()).toBeNull();
+    expect(engine.snapshot().history).toHaveLength(4);
+  });
+
+  it('undo devuelve al último ganador a la ruleta', () => {
+    const engine = createDrawEngine({ gameMode: 'eliminateWinner' }, seeded());
+    engine.load(people());
+    const first = engine.draw();
+    const second = engine.draw();
+    expect(engine.undo()).toEqual(second?.records);
+    expect(engine.snapshot().history).toEqual(first?.records);
+    expect(engine.snapshot().eliminatedIds).toEqual([first?.winner.id]);
+    engine.undo();
+    expect(engine.undo()).toEqual([]);
+    expect(engine.pool()).toHaveLength(4);
+  });
+
+  it('undo en lastStanding deshace juntos al eliminado y al sobreviviente', () => {
+    const engine = createDrawEngine({ gameMode: 'lastStanding', entries: [createEntry('Ana'), createEntry('Luis')] }, seeded());
+    engine.draw();
+    expect(engine.undo()).toHaveLength(2);
+    expect(engine.snapshot()).toMatchObject({ history: [], eliminatedIds: [] });
+  });
+
+  it('snapshot no cambia con los giros siguientes', () => {
+    const engine = createDrawEngine({ entries: people() }, seeded());
+    const before = engine.snapshot();
+    engine.draw();
+    expect(before.history).toEqual([]);
+    expect(engine.snapshot()).not.toBe(before);
+  });
+
+  it('asigna los premios en orden y se detiene con el catálogo completo', () => {
+    const prizes = [createPrize('Televisor', 1), createPrize('Bicicleta', 2)];
+    const state = drawTimes({ entries: people(), prizes }, 5);
+    expect(state.history.map(record => record.prizeName)).toEqual(['Televisor', 'Bicicleta', 'Bicicleta']);
+  });
+
+  it('el ganador predefinido sale una sola vez', () => {
+    const entries = people();
+    const engine = createDrawEngine({ entries, gameMode: 'keepWinner', predefinedWinner: entries[2].id }, seeded());
+    const step = engine.draw();
+    expect(step?.winner.id).toBe(entries[2].id);
+    expect(step?.records[0].predefined).toBe(true);
+    expect(engine.snapshot().predefinedWinner).toBe('');
+  });
+
+  it('respeta el filtro de categorías', () => {
+    const entries = [createEntry('Ana', 1, { category: 'Norte' }), createEntry('Luis', 1, { category: 'Sur' })];
+    const engine = createDrawEngine({ entries, categoryRules: { filter: ['Sur'], maxWinners: null } }, seeded());
+    expect(names(engine.pool())).toEqual(['Luis']);
+    expect(engine.draw()?.winner.value).toBe('Luis');
+  });
+});
+
+describe('pickEntry', () => {
+  it('elige en proporción a los boletos', () => {
+    const rng = seeded();
+    const pool = people();
+    const index = new Map(pool.map((entry, i) => [entry.id, i]));
+    const sample = () => index.get(pickEntry(rng, pool, 'keepWinner').entry.id) ?? -1;
+    expect(checkWeightedFairness(sample, pool.map(entry => entry.weight), 40000).passed).toBe(true);
+  });
+
+  it('en lastStanding nunca deja fuera al ganador predefinido', () => {
+    const rng = seeded();
+    const pool = people();
+    for (let i = 0; i < 200; i++) {
+      expect(pickEntry(rng, pool, 'lastStanding', pool[1].id).entry.id).not.toBe(pool[1].id);
+    }
+  });
+});
+
+describe('undoDraw', () => {
+  it('devuelve null sin giros', () => {
+    expect(undoDraw(createDrawState())).toBeNull();
+  });
+
+  it('quita solo la última aparición del ganador en los eliminados', () => {
+    const state = drawTimes({ entries: people(), gameMode: 'eliminateWinner' }, 2);
+    const [first, last] = state.eliminatedIds;
+    const result = undoDraw({ ...state, eliminatedIds: [last, first, last] });
+    expect(result?.state.eliminatedIds).toEqual([last, first]);
+  });
+});
+
+describe('markDrawAbsent', () => {
+  it('marca el giro y mantiene fuera al ausente aunque el modo lo deje participando', () => {
+    const state = drawTimes({ entries: people(), gameMode: 'keepWinner' }, 1);
+    const record = state.history[0];
+    const next = markDrawAbsent(state, record.sequence);
+    expect(next.history[0].absent).toBe(true);
+    expect(next.eliminatedIds).toEqual([record.winnerId]);
+    expect(drawPool(next).some(entry => entry.id === record.winnerId)).toBe(false);
+  });
+
+  it('libera el premio del ausente para el próximo giro', () => {
+    const prizes = [createPrize('Televisor', 1)];
+    const state = drawTimes({ entries: people(), prizes }, 1);
+    const engine = createDrawEngine(markDrawAbsent(state, 1), seeded());
+    expect(engine.draw()?.records[0].prizeName).toBe('Televisor');
+  });
+
+  it('ignora una secuencia que no existe', () => {
+    const state = drawTimes({ entries: people() }, 1);
+    expect(markDrawAbsent(state, 99)).toBe(state);
+  });
+});
+
+describe('restoreKnockedOut', () => {
+  it('devuelve a los que dejó fuera la flecha y mantiene fuera al ganador', () => {
+    const state = drawTimes({ entries: people(), gameMode: 'lastStanding' }, 3);
+    const survivor = state.history[state.history.length - 1];
+    const next = restoreKnockedOut(state);
+    expect(next.eliminatedIds).toEqual([survivor.winnerId]);
+    expect(drawPool(next)).toHaveLength(3);
+  });
+
+  it('el ganador predefinido sobrevive y queda fuera de la ronda nueva', () => {
+    const entries = people();
+    const state = createDrawState({ entries, gameMode: 'lastStanding' });
+    const engine = createDrawEngine({ ...state, predefinedWinner: entries[0].id }, seeded());
+    for (let i = 0; i < 3; i++) engine.draw();
+    const round = restoreKnockedOut(engine.snapshot());
+    expect(round.eliminatedIds).toEqual([entries[0].id]);
+  });
+});
@@ -0,0 +1,220 @@
+import type { CategoryRules, DrawRecord, Entry, GameMode, Prize } from '../types';
+import { createCryptoRng, pickWeighted, type Rng } from './rng';
+import { currentPrize } from './prizes';
+import { DEFAULT_GAME_MODE, minimumPool } from './gameModes';
+import { DEFAULT_CATEGORY_RULES, categoryOf, eligibleEntries, winnersByCategory } from './categories';
+
+// Reglas del sorteo sin interfaz: qué participantes pueden salir, cómo se elige y cómo se aplica cada resultado.
+// La app y cualquier otro uso (pruebas, integraciones) comparten estas funciones.
+
+// Estado completo de un sorteo
+export interface DrawState {
+  entries: Entry[];
+  eliminatedIds: string[];
+  history: DrawRecord[];
+  prizes: Prize[];
+  gameMode: GameMode;
+  categoryRules: CategoryRules;
+  predefinedWinner: string; // Identificador del ganador predefinido, o '' si no hay
+}
+
+// Participante elegido por un giro
+export interface DrawPick {
+  entry: Entry;
+  predefined: boolean; // Salió por ser el ganador predefinido
+}
+
+// Resultado de aplicar un giro al estado
+export interface DrawStep {
+  state: DrawState;
+  records: DrawRecord[]; // Registros nuevos: uno, o dos cuando queda el último en pie
+  winner: Entry; // Participante que se muestra: el elegido, o el sobreviviente
+}
+
+// Estado vacío, con los valores por defecto de cada regla
+export const createDrawState = (initial: Partial<DrawState> = {}): DrawState => ({
+  entries: [],
+  eliminatedIds: [],
+  history: [],
+  prizes: [],
+  gameMode: DEFAULT_GAME_MODE,
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  predefinedWinner: '',
+  ...initial,
+});
+
+// Participantes que pueden salir en el próximo giro; ignoreCategories sortea sobre todos los disponibles
+export const drawPool = (state: DrawState, ignoreCategories = false): Entry[] => {
+  const eliminated = new Set(state.eliminatedIds);
+  const available = state.entries.filter(entry => !eliminated.has(entry.id));
+  if (ignoreCategories) return available;
+  // Las categorías del filtro que ya no tienen participantes no cuentan
+  const present = new Set(state.entries.map(categoryOf));
+  const rules = { ...state.categoryRules, filter: state.categoryRules.filter.filter(category => present.has(category)) };
+  return eligibleEntries(available, rules, winnersByCategory(state.history));
+};
+
+// Elegir un participante del pool con probabilidad proporcional a sus boletos.
+// Con ganador predefinido sale él; en último en pie es el que sobrevive, así que la flecha cae en cualquier otro.
+export const pickEntry = (rng: Rng, pool: Entry[], mode: GameMode, predefinedWinner = ''): DrawPick => {
+  const predefined = predefinedWinner ? pool.find(entry => entry.id === predefinedWinner) : undefined;
+  if (mode === 'lastStanding') {
+    return { entry: pool[pickWeighted(rng, pool.map(entry => (entry === predefined ? 0 : entry.weight)))], predefined: false };
+  }
+  if (predefined) return { entry: predefined, predefined: true };
+  return { entry: pool[pickWeighted(rng, pool.map(entry => entry.weight))], predefined: false };
+};
+
+// Registro de un giro a continuación del historial dado
+export const createDrawRecord = (
+  previous: DrawRecord[],
+  entry: Entry,
+  originalIndex: number,
+  poolSize: number,
+  prize?: Prize,
+  outcome: Pick<DrawRecord, 'knockedOut' | 'survivor' | 'predefined'> = {}
+): DrawRecord => ({
+  sequence: previous.length + 1,
+  timestamp: Date.now(),
+  winnerId: entry.id,
+  winner: entry.value,
+  originalIndex,
+  poolSize,
+  // Quedar fuera en una ronda de último en pie no cuenta como haber salido
+  redraw: !outcome.knockedOut && previous.some(record => record.winnerId === entry.id && !record.knockedOut),
+  prizeId: prize?.id,
+  prizeName: prize?.name,
+  category: categoryOf(entry) || undefined,
+  ...outcome,
+});
+
+// Aplicar el participante elegido según el modo de juego: registrarlo y sacar de la ruleta a quien corresponda
+export const applyDraw = (state: DrawState, pool: Entry[], pick: DrawPick, prize?: Prize): DrawStep => {
+  const indexOf = (entry: Entry) => state.entries.findIndex(item => item.id === entry.id);
+  const { entry } = pick;
+  const predefinedWinner = pick.predefined ? '' : state.predefinedWinner;
+
+  if (state.gameMode === 'lastStanding') {
+    // La flecha deja fuera al participante; si queda uno solo, ese es el ganador
+    const knockedOut = createDrawRecord(state.history, entry, indexOf(entry), pool.length, undefined, { knockedOut: true });
+    const survivors = pool.filter(item => item.id !== entry.id);
+    if (survivors.length !== 1) {
+      return {
+        state: { ...state, history: [...state.history, knockedOut], eliminatedIds: [...state.eliminatedIds, entry.id] },
+        records: [knockedOut],
+        winner: entry,
+      };
+    }
+    const survivor = survivors[0];
+    const record = createDrawRecord([...state.history, knockedOut], survivor, indexOf(survivor), 1, prize, {
+      survivor: true,
+      predefined: survivor.id === state.predefinedWinner || undefined,
+    });
+    return {
+      state: {
+        ...state,
+        history: [...state.history, knockedOut, record],
+        eliminatedIds: [...state.eliminatedIds, entry.id, survivor.id],
+        predefinedWinner: '',
+      },
+      records: [knockedOut, record],
+      winner: survivor,
+    };
+  }
+
+  const record = createDrawRecord(state.history, entry, indexOf(entry), pool.length, prize, { predefined: pick.predefined || undefined });
+  return {
+    state: {
+      ...state,
+      history: [...state.history, record],
+      // El ganador sale de la ruleta salvo en el modo que lo deja participando
+      eliminatedIds: state.gameMode === 'eliminateWinner' ? [...state.eliminatedIds, entry.id] : state.eliminatedIds,
+      predefinedWinner,
+    },
+    records: [record],
+    winner: entry,
+  };
+};
+
+// Deshacer el último giro devolviendo a la ruleta solo a ese ganador.
+// Si el giro dejó a un último en pie, se deshacen juntos el eliminado y el sobreviviente.
+export const undoDraw = (state: DrawState): { state: DrawState; undone: DrawRecord[] } | null => {
+  const last = state.history[state.history.length - 1];
+  if (!last) return null;
+  const undone = last.survivor ? state.history.slice(-2) : [last];
+  const eliminatedIds = undone.reduce((ids, record) => {
+    const index = ids.lastIndexOf(record.winnerId);
+    return index >= 0 ? [...ids.slice(0, index), ...ids.slice(index + 1)] : ids;
+  }, state.eliminatedIds);
+  return { state: { ...state, history: state.history.slice(0, -undone.length), eliminatedIds }, undone };
+};
+
+// Marcar un giro como ausente: el participante sigue excluido y su premio vuelve a sortearse
+export const markDrawAbsent = (state: DrawState, sequence: number): DrawState => {
+  const record = state.history.find(item => item.sequence === sequence);
+  if (!record) return state;
+  return {
+    ...state,
+    history: state.history.map(item => (item.sequence === sequence ? { ...item, absent: true } : item)),
+    // Cuando el ganador sigue participando, el ausente igual tiene que salir de la ruleta
+    eliminatedIds: state.eliminatedIds.includes(record.winnerId) ? state.eliminatedIds : [...state.eliminatedIds, record.winnerId],
+  };
+};
+
+// Nueva ronda de último en pie: vuelven los que dejó fuera la flecha, los ganadores y ausentes siguen fuera
+export const restoreKnockedOut = (state: DrawState): DrawState => {
+  const knockedOut = new Set(state.history.filter(record => record.knockedOut).map(record => record.winnerId));
+  const excluded = new Set(state.history.filter(record => !record.knockedOut).map(record => record.winnerId));
+  return { ...state, eliminatedIds: state.eliminatedIds.filter(id => !knockedOut.has(id) || excluded.has(id)) };
+};
+
+export interface DrawEngine {
+  load: (entries: Entry[]) => void; // Reemplaza la lista y empieza el sorteo de cero
+  configure: (rules: Partial<Pick<DrawState, 'prizes' | 'gameMode' | 'categoryRules' | 'predefinedWinner'>>) => void;
+  pool: () => Entry[];
+  draw: () => DrawStep | null; // null si no se puede girar: pool insuficiente o premios completos
+  markAbsent: (sequence: number) => void;
+  undo: () => DrawRecord[]; // Registros deshechos
+  newRound: () => void;
+  restore: () => void; // Devuelve a la ruleta a todos los eliminados, sin tocar el historial
+  snapshot: () => DrawState;
+}
+
+// Motor de sorteo con estado propio, para usar las reglas sin la interfaz
+export const createDrawEngine = (initial: Partial<DrawState> = {}, rng: Rng = createCryptoRng()): DrawEngine => {
+  let state = createDrawState(initial);
+
+  return {
+    load: (entries) => {
+      state = { ...state, entries, eliminatedIds: [], history: [], predefinedWinner: '' };
+    },
+    configure: (rules) => {
+      state = { ...state, ...rules };
+    },
+    pool: () => drawPool(state),
+    draw: () => {
+      const pool = drawPool(state);
+      const prize = currentPrize(state.prizes, state.history)?.prize;
+      if (pool.length < minimumPool(state.gameMode) || (state.prizes.length > 0 && !prize)) return null;
+      const step = applyDraw(state, pool, pickEntry(rng, pool, state.gameMode, state.predefinedWinner), prize);
+      state = step.state;
+      return step;
+    },
+    markAbsent: (sequence) => {
+      state = markDrawAbsent(state, sequence);
+    },
+    undo: () => {
+      const result = undoDraw(state);
+      if (!result) return [];
+      state = result.state;
+      return result.undone;
+    },
+    newRound: () => {
+      state = restoreKnockedOut(state);
+    },
+    restore: () => {
+      state = { ...state, eliminatedIds: [] };
+    },
+    snapshot: () => state,
+  };
+};
@@ -0,0 +1,124 @@
+import type { DrawRecord, Entry, EventSettings, GameMode, Prize, Theme } from '../types';
+import type { DrawOutcome } from './gameModes';
+import type { Locale } from './i18n';
+import { createEntry } from './entries';
+import { createPrize } from './prizes';
+
+// API para insertar la ruleta en otra página con un iframe a widget.html.
+//
+//   <iframe id="ruleta" src="https://servidor/widget.html?origin=https://intranet.ejemplo"></iframe>
+//
+// La página anfitriona manda comandos con postMessage y escucha los eventos de la ruleta:
+//
+//   const ruleta = document.getElementById('ruleta').contentWindow;
+//   ruleta.postMessage({ protocol: 'ruleta-embed', type: 'load', participants: ['Ana', { name: 'Luis', tickets: 3 }] }, '*');
+//   ruleta.postMessage({ protocol: 'ruleta-embed', type: 'spin', requestId: 'giro-1' }, '*');
+//   window.addEventListener('message', event => {
+//     if (event.data?.protocol === 'ruleta-embed' && event.data.type === 'winner') console.log(event.data.winner);
+//   });
+//
+// Parámetros de widget.html:
+//   origin   Origen de la página anfitriona. Si se indica, solo se aceptan sus comandos y solo a ella se envían
+//            los eventos; si falta, se acepta cualquier página que contenga al iframe.
+//   controls 0 para que solo se pueda girar por comando, no con un clic en el centro.
+//   lang     es o en.
+
+// Marca de los mensajes de la API, para distinguirlos de otros postMessage de la página
+export const EMBED_PROTOCOL = 'ruleta-embed';
+
+// Participante tal como lo manda la página anfitriona: solo el nombre, o con boletos, nº de socio y categoría
+export type EmbedParticipant = string | { name: string; tickets?: number; memberId?: string; category?: string };
+
+// Comandos de la página anfitriona. requestId es opcional y vuelve en la respuesta o el error del comando.
+export type EmbedCommand = { requestId?: string } & (
+  | { type: 'load'; participants: EmbedParticipant[] } // Reemplaza la lista y empieza el sorteo de cero
+  | {
+      type: 'configure';
+      settings?: Partial<EventSettings>;
+      theme?: Partial<Theme>;
+      gameMode?: GameMode;
+      prizes?: { name: string; quantity: number }[]; // Se sortean en este orden
+      locale?: Locale;
+    }
+  | { type: 'spin' }
+  | { type: 'reset' } // Vacía la lista, el historial y los premios
+  | { type: 'restore' } // Devuelve a la ruleta a todos los que ya salieron, conservando el historial
+  | { type: 'getState' } // Responde busy mientras la ruleta gira: el resultado llega con el evento winner
+);
+
+// Participante en los eventos, sin los campos internos
+export interface EmbedWinner {
+  id: string;
+  name: string;
+  memberId?: string;
+  category?: string;
+}
+
+// Resumen del sorteo que acompaña a los eventos state y loaded
+export interface EmbedState {
+  participants: number;
+  remaining: number; // Los que todavía pueden salir
+  history: DrawRecord[];
+}
+
+// Eventos que la ruleta envía a la página anfitriona, siempre con protocol: 'ruleta-embed'.
+// requestId repite el del comando que los provocó.
+export type EmbedEvent = { requestId?: string } & (
+  | { type: 'ready' } // La ruleta ya recibe comandos
+  | { type: 'loaded'; state: EmbedState }
+  | { type: 'configured' }
+  | { type: 'spin-start'; poolSize: number; prize: string | null }
+  | { type: 'winner'; winner: EmbedWinner; outcome: DrawOutcome; prize: string | null; records: DrawRecord[]; state: EmbedState }
+  | { type: 'state'; state: EmbedState }
+  | { type: 'error'; code: EmbedErrorCode; message: string; command?: string }
+);
+
+// Motivos por los que un comando no se pudo cumplir
+export type EmbedErrorCode = 'invalidCommand' | 'busy' | 'cannotSpin';
+
+const COMMAND_TYPES = ['load', 'configure', 'spin', 'reset', 'restore', 'getState'];
+
+// Comando válido a partir de los datos recibidos, o null si el mensaje no es de la API
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const message = data as Record<string, unknown>;
+  if (message.protocol !== EMBED_PROTOCOL || !COMMAND_TYPES.includes(message.type as string)) return null;
+  if (message.type === 'load' && !Array.isArray(message.participants)) return null;
+  return message as EmbedCommand;
+};
+
+// Participantes de la ruleta a partir de los enviados; se descartan los que no tienen nombre
+export const toEntries = (participants: EmbedParticipant[]): Entry[] => {
+  return participants.flatMap(participant => {
+    if (typeof participant === 'string') {
+      return participant.trim() ? [createEntry(participant.trim())] : [];
+    }
+    const name = typeof participant?.name === 'string' ? participant.name.trim() : '';
+    if (!name) return [];
+    const { tickets } = participant;
+    return [createEntry(name, typeof tickets === 'number' && Number.isInteger(tickets) && tickets > 0 ? tickets : 1, {
+      memberId: typeof participant.memberId === 'string' ? participant.memberId : undefined,
+      category: typeof participant.category === 'string' ? participant.category : undefined,
+    })];
+  });
+};
+
+// Catálogo de premios a partir de los enviados
+export const toPrizes = (prizes: { name: string; quantity: number }[]): Prize[] => {
+  return prizes
+    .filter(prize => typeof prize?.name === 'string' && prize.name.trim().length > 0)
+    .map(prize => createPrize(prize.name.trim(), Number.isInteger(prize.quantity) && prize.quantity > 0 ? prize.quantity : 1));
+};
+
+// Enviar un evento a la página anfitriona
+export const postEmbedEvent = (host: Window, origin: string, event: EmbedEvent) => {
+  host.postMessage({ protocol: EMBED_PROTOCOL, ...event }, origin);
+};
+
+// Participante para los eventos
+export const toEmbedWinner = (entry: Entry): EmbedWinner => ({
+  id: entry.id,
+  name: entry.value,
+  memberId: entry.memberId,
+  category: entry.category,
+});
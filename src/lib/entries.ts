@@ -0,0 +1,76 @@
+import type { Entry } from '../types';
+import { createId } from './ids';
+
+// Qué hacer con un participante que ya está en la lista
+export type DuplicateStrategy = 'merge' | 'keep' | 'reject';
+
+// Crear un participante con identificador único
+export const createEntry = (value: string, weight = 1, extra: Pick<Entry, 'memberId' | 'fields' | 'category'> = {}): Entry => ({
+  id: createId(),
+  value,
+  weight,
+  ...extra,
+});
+
+// Leer una línea del área de texto: "Nombre", "Nombre;boletos" o "Nombre;boletos;categoría"
+export const parseOptionLine = (line: string): Entry | null => {
+  const trimmed = line.trim();
+  if (trimmed.length === 0) return null;
+  const match = /^(.*?)\s*;\s*([1-9]\d*)(?:\s*;\s*(.+))?$/.exec(trimmed);
+  if (match && match[1].length > 0) {
+    return createEntry(match[1], Number(match[2]), match[3] ? { category: match[3] } : {});
+  }
+  return createEntry(trimmed);
+};
+
+// Texto en minúsculas y sin acentos, para comparar y buscar nombres
+export const normalizeText = (text: string): string => {
+  return text.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+};
+
+// Clave para detectar repetidos: el número de socio si existe, si no el nombre normalizado
+export const duplicateKey = (entry: Entry): string => {
+  const memberId = entry.memberId?.trim();
+  if (memberId) return `socio:${memberId.toLowerCase()}`;
+  return `nombre:${normalizeText(entry.value)}`;
+};
+
+// Participantes nuevos que repiten uno existente o uno anterior del mismo lote
+export const findDuplicates = (existing: Entry[], incoming: Entry[]): Entry[] => {
+  const seen = new Set(existing.map(duplicateKey));
+  const duplicates: Entry[] = [];
+  for (const entry of incoming) {
+    const key = duplicateKey(entry);
+    if (seen.has(key)) duplicates.push(entry);
+    else seen.add(key);
+  }
+  return duplicates;
+};
+
+// Agregar los participantes nuevos resolviendo los repetidos según la estrategia.
+// Al combinar, los boletos se suman al primer participante con la misma clave.
+export const addEntries = (existing: Entry[], incoming: Entry[], strategy: DuplicateStrategy): Entry[] => {
+  const result = [...existing];
+  const positions = new Map<string, number>();
+  result.forEach((entry, i) => {
+    const key = duplicateKey(entry);
+    if (!positions.has(key)) positions.set(key, i);
+  });
+
+  for (const entry of incoming) {
+    const key = duplicateKey(entry);
+    const position = positions.get(key);
+    if (position === undefined || strategy === 'keep') {
+      if (position === undefined) positions.set(key, result.length);
+      result.push(entry);
+    } else if (strategy === 'merge') {
+      const original = result[position];
+      result[position] = {
+        ...original,
+        weight: original.weight + entry.weight,
+        fields: original.fields || entry.fields ? { ...entry.fields, ...original.fields } : undefined,
+      };
+    }
+  }
+  return result;
+};
@@ -0,0 +1,51 @@
+// Pruebas estadísticas para comprobar que un sorteo reparte las chances según los boletos
+
+// z de una cola para un nivel de significación de 0,001: una falsa alarma cada mil pruebas
+const Z_ONE_IN_A_THOUSAND = 3.0902;
+
+// Resultado de una prueba chi-cuadrado de bondad de ajuste
+export interface FairnessCheck {
+  statistic: number;
+  degreesOfFreedom: number;
+  critical: number; // Por encima de este valor la distribución no es la esperada
+  passed: boolean;
+}
+
+// Cuántas veces salió cada índice en `samples` extracciones
+export const sampleFrequencies = (sample: () => number, categories: number, samples: number): number[] => {
+  const observed = new Array<number>(categories).fill(0);
+  for (let i = 0; i < samples; i++) {
+    observed[sample()]++;
+  }
+  return observed;
+};
+
+// Estadístico chi-cuadrado entre frecuencias observadas y esperadas
+export const chiSquare = (observed: number[], expected: number[]): number => {
+  return observed.reduce((sum, count, i) => sum + (count - expected[i]) ** 2 / expected[i], 0);
+};
+
+// Valor crítico aproximado de chi-cuadrado (Wilson-Hilferty), suficiente desde pocos grados de libertad
+export const chiSquareCritical = (degreesOfFreedom: number, z = Z_ONE_IN_A_THOUSAND): number => {
+  const k = degreesOfFreedom;
+  return k * (1 - 2 / (9 * k) + z * Math.sqrt(2 / (9 * k))) ** 3;
+};
+
+// Comprobar que `sample` elige cada índice con probabilidad proporcional a su peso.
+// Un índice con peso 0 que sale alguna vez hace fallar la prueba.
+export const checkWeightedFairness = (sample: () => number, weights: number[], samples: number): FairnessCheck => {
+  const observed = sampleFrequencies(sample, weights.length, samples);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const drawable = weights.flatMap((weight, i) => (weight > 0 ? [i] : []));
+  const degreesOfFreedom = drawable.length - 1;
+  // Con un único índice posible no hay nada que comparar
+  const critical = degreesOfFreedom > 0 ? chiSquareCritical(degreesOfFreedom) : 0;
+  if (weights.some((weight, i) => weight === 0 && observed[i] > 0)) {
+    return { statistic: Infinity, degreesOfFreedom, critical, passed: false };
+  }
+  const statistic = chiSquare(
+    drawable.map(i => observed[i]),
+    drawable.map(i => (samples * weights[i]) / total)
+  );
+  return { statistic, degreesOfFreedom, critical, passed: statistic <= critical };
+};
@@ -0,0 +1,38 @@
+import type { DrawRecord, GameMode } from '../types';
+import type { MessageKey } from './i18n';
+
+// Modo de siempre: el ganador sale de la ruleta
+export const DEFAULT_GAME_MODE: GameMode = 'eliminateWinner';
+
+// Modos que puede elegir el operador, con su nombre y explicación
+export const GAME_MODES: { id: GameMode; label: MessageKey; description: MessageKey }[] = [
+  { id: 'eliminateWinner', label: 'gameMode.eliminateWinner', description: 'gameMode.eliminateWinnerHint' },
+  { id: 'keepWinner', label: 'gameMode.keepWinner', description: 'gameMode.keepWinnerHint' },
+  { id: 'lastStanding', label: 'gameMode.lastStanding', description: 'gameMode.lastStandingHint' },
+];
+
+// Qué significa el resultado de un giro, para el modal y la pantalla del público
+export type DrawOutcome = 'winner' | 'knockedOut' | 'survivor';
+
+// Título y etiqueta del modal para cada resultado
+export const OUTCOME_MESSAGES: Record<DrawOutcome, { title: MessageKey; label: MessageKey }> = {
+  winner: { title: 'winner.title', label: 'winner.label' },
+  knockedOut: { title: 'winner.knockedOutTitle', label: 'winner.knockedOutLabel' },
+  survivor: { title: 'winner.survivorTitle', label: 'winner.label' },
+};
+
+// Resultado de un giro registrado
+export const drawOutcome = (record: DrawRecord): DrawOutcome => {
+  if (record.knockedOut) return 'knockedOut';
+  return record.survivor ? 'survivor' : 'winner';
+};
+
+// Participantes necesarios para girar: en último en pie no tiene sentido eliminar al único que queda
+export const minimumPool = (mode: GameMode): number => {
+  return mode === 'lastStanding' ? 2 : 1;
+};
+
+// Modo guardado válido, p. ej. al cargar una sesión anterior
+export const normalizeGameMode = (stored?: string): GameMode => {
+  return GAME_MODES.some(mode => mode.id === stored) ? (stored as GameMode) : DEFAULT_GAME_MODE;
+};
@@ -0,0 +1,54 @@
+import type { DrawRecord } from '../types';
+import { formatDateTime, translate, type Locale } from './i18n';
+
+const CSV_COLUMNS = ['sequence', 'timestamp', 'localTime', 'winnerId', 'winner', 'originalIndex', 'poolSize', 'redraw', 'absent', 'knockedOut', 'predefined', 'prize', 'category'] as const;
+
+// Escapar un valor para CSV (comillas, separadores y saltos de línea)
+const escapeCsv = (value: string): string => {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Convertir el historial a CSV con fecha en formato ISO y, para leerla, en el formato del idioma
+export const historyToCsv = (history: DrawRecord[], locale: Locale): string => {
+  const rows = history.map(record =>
+    [
+      String(record.sequence),
+      new Date(record.timestamp).toISOString(),
+      formatDateTime(locale, record.timestamp),
+      record.winnerId,
+      record.winner,
+      String(record.originalIndex),
+      String(record.poolSize),
+      translate(locale, record.redraw ? 'common.yes' : 'common.no'),
+      translate(locale, record.absent ? 'common.yes' : 'common.no'),
+      translate(locale, record.knockedOut ? 'common.yes' : 'common.no'),
+      translate(locale, record.predefined ? 'common.yes' : 'common.no'),
+      record.prizeName ?? '',
+      record.category ?? '',
+    ].map(escapeCsv).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// Convertir el historial a JSON legible
+export const historyToJson = (history: DrawRecord[]): string => {
+  return JSON.stringify(
+    history.map(record => ({ ...record, timestamp: new Date(record.timestamp).toISOString() })),
+    null,
+    2
+  );
+};
+
+// Descargar un texto como archivo desde el navegador
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  // BOM para que Excel reconozca los acentos del CSV
+  const blob = new Blob([mimeType === 'text/csv' ? '\uFEFF' + content : content], {
+    type: `${mimeType};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,65 @@
+import es from './locales/es';
+import en from './locales/en';
+
+export type Locale = 'es' | 'en';
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+// Idiomas disponibles en el selector
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'es', name: 'Español' },
+  { id: 'en', name: 'English' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { es, en };
+
+// Clave en localStorage; las otras ventanas escuchan sus cambios
+export const LOCALE_STORAGE_KEY = 'ruleta-idioma';
+
+// Número con separadores de miles y decimales del idioma
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string => {
+  return new Intl.NumberFormat(locale, options).format(value);
+};
+
+// Fecha y hora en el formato del idioma
+export const formatDateTime = (locale: Locale, timestamp: number, options?: Intl.DateTimeFormatOptions): string => {
+  return new Intl.DateTimeFormat(locale, options ?? { dateStyle: 'short', timeStyle: 'medium' }).format(timestamp);
+};
+
+// Texto del catálogo con los parámetros {nombre} reemplazados; los números se formatean según el idioma
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale][key] ?? CATALOGS.es[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+// Error con mensaje del catálogo, para mostrarlo en el idioma elegido
+export class LocalizedError extends Error {
+  constructor(public key: MessageKey, public params?: MessageParams) {
+    super(translate('es', key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+// Mensaje de cualquier error en el idioma elegido
+export const errorMessage = (locale: Locale, error: unknown): string => {
+  if (error instanceof LocalizedError) return translate(locale, error.key, error.params);
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Idioma guardado en este navegador, o el del navegador si nunca se eligió
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (stored === 'es' || stored === 'en') return stored;
+  return navigator.language.toLowerCase().startsWith('en') ? 'en' : 'es';
+};
+
+// Recordar el idioma elegido; también avisa a las otras ventanas abiertas
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
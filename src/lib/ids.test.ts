@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createId } from './ids';
+
+const UUID_V4 = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('createId', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('usa randomUUID cuando está disponible', () => {
+    expect(createId()).toMatch(UUID_V4);
+  });
+
+  it('arma un UUID v4 sin randomUUID, como en http fuera de localhost', () => {
+    const { getRandomValues } = crypto;
+    vi.stubGlobal('crypto', { getRandomValues: getRandomValues.bind(crypto) });
+    expect(globalThis.crypto.randomUUID).toBeUndefined();
+    const ids = new Set(Array.from({ length: 100 }, createId));
+    expect(ids.size).toBe(100);
+    ids.forEach(id => expect(id).toMatch(UUID_V4));
+  });
+});
@@ -0,0 +1,11 @@
+// Identificador único para participantes, premios y giros programados.
+// crypto.randomUUID solo existe en contextos seguros (https o localhost); servida por http en la red
+// del salón, la app arma un UUID v4 con getRandomValues, que está disponible en cualquier contexto.
+export const createId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Versión 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variante RFC 4122
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
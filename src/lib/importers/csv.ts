@@ -0,0 +1,65 @@
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Detectar el separador más frecuente en la primera línea (Excel en español usa ";")
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+const PROGRESS_INTERVAL = 65536; // Caracteres entre avisos de progreso
+
+// Leer un CSV con campos entre comillas, comillas dobles escapadas y saltos de línea dentro de campos
+export const parseCsv = (
+  text: string,
+  onProgress?: (processed: number, total: number) => void,
+  delimiter = detectDelimiter(text)
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) onProgress(i, text.length);
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Última fila sin salto de línea final
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,106 @@
+import type { Entry } from '../../types';
+import { createEntry } from '../entries';
+import { parseXlsx } from './xlsx';
+import { parseCsvText, type ProgressHandler } from '../parseClient';
+import { LocalizedError } from '../i18n';
+
+// Columnas elegidas en el paso de mapeo
+export interface ColumnMapping {
+  hasHeader: boolean;
+  labelColumn: number; // Columna que se muestra en la ruleta
+  fieldColumns: number[]; // Columnas que se guardan como datos adicionales
+  weightColumn: number | null; // Columna con la cantidad de boletos, o null si todos valen 1
+  memberIdColumn: number | null; // Columna con el número de socio, o null si no hay
+  categoryColumn: number | null; // Columna con la sucursal o grupo, o null si no hay
+}
+
+// Motivo por el que se omitió una fila
+export type SkipReason = 'empty' | 'missingLabel' | 'invalidWeight';
+
+// Fila del archivo que no se importó
+export interface SkippedRow {
+  row: number; // Número de fila en el archivo, desde 1
+  reason: SkipReason;
+  column?: string; // Columna con el problema
+}
+
+// Resultado de aplicar el mapeo a las filas del archivo
+export interface ImportResult {
+  entries: Entry[];
+  skipped: SkippedRow[];
+}
+
+// Cantidad de boletos válida: entero positivo
+export const parseWeight = (text: string): number | null => {
+  return /^[1-9]\d*$/.test(text.trim()) ? Number(text.trim()) : null;
+};
+
+// Leer un archivo CSV o Excel como matriz de textos.
+// El CSV se analiza en un worker; el .xlsx necesita DOMParser, que solo existe en el hilo principal.
+export const readTableFile = async (file: File, onProgress?: ProgressHandler): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith('.xls')) {
+    throw new LocalizedError('import.errors.xls');
+  }
+  return parseCsvText(await file.text(), onProgress);
+};
+
+// Nombres de las columnas: la cabecera si existe, si no el nombre genérico "Columna N"
+export const columnNames = (
+  rows: string[][],
+  hasHeader: boolean,
+  genericName: (index: number) => string = index => `Columna ${index + 1}`
+): string[] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return Array.from({ length: width }, (_, i) => {
+    const header = hasHeader ? rows[0]?.[i]?.trim() : '';
+    return header || genericName(i);
+  });
+};
+
+// Convertir las filas en participantes según el mapeo, registrando las omitidas.
+// names son los nombres de columna, que se usan como claves de los datos adicionales.
+export const applyMapping = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  names: string[] = columnNames(rows, mapping.hasHeader)
+): ImportResult => {
+  const entries: Entry[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.forEach((row, i) => {
+    if (mapping.hasHeader && i === 0) return;
+    const rowNumber = i + 1;
+    if (row.every(cell => cell.trim().length === 0)) {
+      skipped.push({ row: rowNumber, reason: 'empty' });
+      return;
+    }
+    const value = row[mapping.labelColumn]?.trim() ?? '';
+    if (value.length === 0) {
+      skipped.push({ row: rowNumber, reason: 'missingLabel', column: names[mapping.labelColumn] });
+      return;
+    }
+    let weight = 1;
+    if (mapping.weightColumn !== null) {
+      const parsed = parseWeight(row[mapping.weightColumn] ?? '');
+      if (parsed === null) {
+        skipped.push({ row: rowNumber, reason: 'invalidWeight', column: names[mapping.weightColumn] });
+        return;
+      }
+      weight = parsed;
+    }
+    const memberId = mapping.memberIdColumn !== null ? row[mapping.memberIdColumn]?.trim() || undefined : undefined;
+    const category = mapping.categoryColumn !== null ? row[mapping.categoryColumn]?.trim() || undefined : undefined;
+    let fields: Record<string, string> | undefined;
+    if (mapping.fieldColumns.length > 0) {
+      fields = {};
+      for (const column of mapping.fieldColumns) {
+        fields[names[column]] = row[column]?.trim() ?? '';
+      }
+    }
+    entries.push(createEntry(value, weight, { memberId, fields, category }));
+  });
+
+  return { entries, skipped };
+};
@@ -0,0 +1,138 @@
+import { LocalizedError } from '../i18n';
+
+// Lector mínimo de la primera hoja de un .xlsx (ZIP con XML) usando las APIs del navegador
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+// Leer el directorio central del ZIP
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new LocalizedError('import.errors.notXlsx');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// Extraer y descomprimir un archivo del ZIP como texto
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const offset = entry.localOffset;
+  if (view.getUint32(offset, true) !== LOCAL_SIGNATURE) {
+    throw new LocalizedError('import.errors.corruptEntry', { name: entry.name });
+  }
+  const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new LocalizedError('import.errors.compression', { name: entry.name });
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+// Convertir la referencia de columna ("A", "AB") en índice desde 0
+const columnIndex = (reference: string): number => {
+  let index = 0;
+  for (const char of reference.replace(/[0-9]/g, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+// Todos los elementos con ese nombre local, tengan o no prefijo de espacio de nombres
+const byTag = (parent: Document | Element, tag: string): Element[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', tag));
+};
+
+// Texto de un <si> o <is>, uniendo los fragmentos con formato
+const richText = (element: Element): string => {
+  return byTag(element, 't').map(t => t.textContent ?? '').join('');
+};
+
+// Ruta de la primera hoja según workbook.xml y sus relaciones
+const firstSheetPath = async (view: DataView, entries: Map<string, ZipEntry>, parser: DOMParser): Promise<string> => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const workbookXml = parser.parseFromString(await readZipText(view, workbook), 'application/xml');
+    const relsXml = parser.parseFromString(await readZipText(view, rels), 'application/xml');
+    const sheet = byTag(workbookXml, 'sheet')[0];
+    const relationId = sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const target = byTag(relsXml, 'Relationship').find(rel => rel.getAttribute('Id') === relationId)?.getAttribute('Target');
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  const fallback = Array.from(entries.keys()).filter(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name)).sort()[0];
+  if (!fallback) throw new LocalizedError('import.errors.noSheets');
+  return fallback;
+};
+
+// Leer la primera hoja como matriz de textos
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+  const parser = new DOMParser();
+
+  const sharedEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedEntry
+    ? byTag(parser.parseFromString(await readZipText(view, sharedEntry), 'application/xml'), 'si').map(richText)
+    : [];
+
+  const sheetEntry = entries.get(await firstSheetPath(view, entries, parser));
+  if (!sheetEntry) throw new LocalizedError('import.errors.firstSheet');
+  const sheet = parser.parseFromString(await readZipText(view, sheetEntry), 'application/xml');
+
+  const rows: string[][] = [];
+  for (const rowElement of byTag(sheet, 'row')) {
+    const row: string[] = [];
+    byTag(rowElement, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const raw = byTag(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = byTag(cell, 'is').map(richText).join('');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = raw;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+    // Respetar filas vacías intermedias según el número de fila
+    const rowNumber = Number(rowElement.getAttribute('r'));
+    while (rowNumber && rows.length < rowNumber - 1) rows.push([]);
+    rows.push(row);
+  }
+  return rows;
+};
@@ -0,0 +1,349 @@
+import type { Messages } from '../i18n';
+
+// Textos de la interfaz en inglés
+const en: Messages = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.yes': 'yes',
+  'common.no': 'no',
+
+  'duplicates.title': 'Duplicate participants',
+  'duplicates.description': '{count} of the {total} new participants are already on the list (same member number or same name).',
+  'duplicates.more': '… and {count} more',
+  'duplicates.merge': 'Merge',
+  'duplicates.mergeHint': 'Add the tickets to the existing participant',
+  'duplicates.keep': 'Keep',
+  'duplicates.keepHint': 'Add them as separate participants',
+  'duplicates.reject': 'Reject',
+  'duplicates.rejectHint': 'Do not add the duplicates',
+
+  'express.title': 'Congratulations to the {count} winners!',
+  'express.knockedOutTitle': '{count} participants are out',
+  'express.showAll': 'Show all',
+  'express.revealNext': 'Reveal next',
+  'express.knockedOut': 'out',
+
+  'prizes.summaryTitle': 'Prizes awarded',
+  'prizes.title': 'Prizes',
+  'prizes.hasWinners': 'The prize already has winners',
+  'prizes.remove': 'Remove prize',
+  'prizes.namePlaceholder': 'Prize',
+  'prizes.quantity': 'Quantity',
+
+  'verifiable.title': 'Verifiable draw',
+  'verifiable.description': 'Freezes the current list and publishes the commitment of a secret seed. At the end the seed is revealed so anyone can recompute the winners.',
+  'verifiable.activate': 'Enable verifiable mode',
+  'verifiable.cryptoUnavailable': 'The browser could not generate the seed or the hashes. Open the wheel over https or from localhost.',
+  'verifiable.activeTitle': 'Verifiable draw active',
+  'verifiable.commitment': 'Seed commitment (SHA-256):',
+  'verifiable.listHash': 'List fingerprint ({count} participants):',
+  'verifiable.draws': 'Verifiable draws: {count}',
+  'verifiable.revealedSeed': 'Revealed seed:',
+  'verifiable.bundleFilename': 'draw-proof.json',
+  'verifiable.bundle': 'Proof',
+  'verifiable.exit': 'Leave mode',
+  'verifiable.openVerifier': 'Open verifier',
+  'verifiable.reveal': 'Finish and reveal seed',
+
+  'history.title': 'Draw history',
+  'history.empty': 'No draws recorded yet.',
+  'history.time': 'Time',
+  'history.winner': 'Winner',
+  'history.prize': 'Prize',
+  'history.available': 'Available',
+  'history.redraw': '(repeat)',
+  'history.filename': 'draw-{date}.{extension}',
+  'history.exportCsv': 'Export CSV',
+  'history.exportJson': 'Export JSON',
+  'history.absent': '(absent)',
+  'history.knockedOut': '(out of the round)',
+  'history.survivor': '(last one standing)',
+  'history.markAbsent': 'Mark absent: the prize is drawn again',
+  'history.undo': 'Undo last draw',
+  'history.undoHint': 'Puts the last winner back on the wheel and removes the draw from the history',
+  'history.predefined': '(predefined)',
+
+  'import.errors.xls': 'The old .xls format is not supported, save the file as .xlsx or .csv',
+  'import.errors.notXlsx': 'The file is not a valid Excel workbook (.xlsx)',
+  'import.errors.corruptEntry': 'Damaged entry in the file: {name}',
+  'import.errors.compression': 'Unsupported compression in {name}',
+  'import.errors.noSheets': 'The workbook has no sheets',
+  'import.errors.firstSheet': 'The first sheet of the workbook was not found',
+  'import.title': 'Import participants',
+  'import.genericColumn': 'Column {number}',
+  'import.reading': 'Reading file… {percent}%',
+  'import.dropHint': 'Drop a CSV or Excel (.xlsx) file, or click to choose one',
+  'import.hasHeader': 'The first row is a header',
+  'import.labelColumn': 'Display name:',
+  'import.weightColumn': 'Tickets',
+  'import.weightNone': '1 per participant',
+  'import.memberIdColumn': 'Member no.',
+  'import.memberIdNone': 'No number',
+  'import.categoryColumn': 'Category',
+  'import.categoryNone': 'No category',
+  'import.roleLabel': '{name} (name)',
+  'import.roleWeight': '{name} (tickets)',
+  'import.roleMemberId': '{name} (member no.)',
+  'import.roleCategory': '{name} (category)',
+  'import.summary': '{count} participants will be imported. Skipped rows: {skipped}',
+  'import.skippedRow': 'Row {row}: {reason}',
+  'import.skip.empty': 'Empty row',
+  'import.skip.missingLabel': 'No value in "{column}"',
+  'import.skip.invalidWeight': 'Invalid quantity in "{column}"',
+  'import.submit': 'Import participants',
+  'import.submitCount': 'Import {count} participants',
+
+  'theme.errors.json': 'The theme file is not valid JSON',
+  'theme.errors.format': 'The theme file does not have the expected format',
+  'theme.errors.image': 'The file is not an image',
+  'theme.title': 'Theme and branding',
+  'theme.chooseImage': 'Choose image',
+  'theme.removeImage': 'Remove image',
+  'theme.eventTitle': 'Event title',
+  'theme.centerText': 'Center text (when there is no logo)',
+  'theme.logo': 'Center logo',
+  'theme.background': 'Background image',
+  'theme.font': 'Font',
+  'theme.fonts.default': 'Default',
+  'theme.fonts.sans': 'Sans serif',
+  'theme.fonts.serif': 'Serif',
+  'theme.fonts.rounded': 'Rounded',
+  'theme.fonts.impact': 'Impact',
+  'theme.fonts.mono': 'Monospace',
+  'theme.palette': 'Slice colors (slice / text)',
+  'theme.sliceColor': 'Slice',
+  'theme.textColor': 'Text',
+  'theme.removeColor': 'Remove color',
+  'theme.addColor': 'Add color',
+  'theme.paletteHint': 'The first color is also used for the rim and the second for the center.',
+  'theme.load': 'Load theme',
+  'theme.filename': 'wheel-theme.json',
+  'theme.save': 'Save theme',
+  'theme.reset': 'Original theme',
+
+  'options.searchPlaceholder': 'Search by name, member no., category or data',
+  'options.searchResults': '{count} results',
+
+  'settings.title': 'Event settings',
+  'settings.scope': 'Apply to',
+  'settings.scopeEvent': 'Whole event',
+  'settings.scopePrize': 'Prize: {name}',
+  'settings.prizeHint': 'Unchanged values use the event values. This prize is drawn with its own values.',
+  'settings.spinDuration': 'Spin duration',
+  'settings.minSpins': 'Minimum turns',
+  'settings.optionChangeSpeed': 'Name change at start',
+  'settings.confettiParticles': 'Confetti (0 turns it off)',
+  'settings.spinVolume': 'Spin volume',
+  'settings.winVolume': 'Winner volume',
+  'settings.divisions': 'Slices for large lists',
+  'settings.units.seconds': 's',
+  'settings.units.milliseconds': 'ms',
+  'settings.units.percent': '%',
+  'settings.units.spins': 'turns',
+  'settings.units.particles': 'particles',
+  'settings.units.slices': 'slices',
+  'settings.useEventValue': 'Use the event value',
+  'settings.sound': 'Sound',
+  'settings.soundPack': 'Sound pack',
+  'settings.masterVolume': 'Master volume',
+  'settings.mute': 'Mute',
+  'settings.preview': 'Preview',
+  'settings.reset': 'Factory defaults',
+
+  'sound.packs.classic': 'Classic',
+  'sound.packs.wood': 'Wood',
+  'sound.packs.arcade': 'Arcade',
+  'sound.packs.soft': 'Soft',
+
+  'language.label': 'Language',
+
+  'verifier.invalidBundle': 'The file is not a valid draw proof',
+  'verifier.title': 'Draw verifier',
+  'verifier.description': 'Load the proof published at the end of the event. Each winner is recomputed with SHA-256 of the seed and the draw number over the options still in play.',
+  'verifier.loadFile': 'Load file',
+  'verifier.placeholder': 'Paste the JSON proof here',
+  'verifier.verify': 'Verify',
+  'verifier.ok': 'The draw is correct',
+  'verifier.mismatch': 'The proof does not match',
+  'verifier.commitmentOk': 'The seed matches the published commitment',
+  'verifier.listHashOk': 'The participant list matches its fingerprint',
+  'verifier.draw': 'Draw',
+  'verifier.recorded': 'Recorded',
+  'verifier.expected': 'Recomputed',
+
+  'audience.waiting': 'Waiting for the operator console…',
+  'audience.unsupported': 'This browser cannot sync the audience display.',
+
+  'wheel.prize': 'Prize: {name} ({number} of {quantity})',
+
+  'winner.title': 'Congratulations to the Winner!',
+  'winner.label': 'The winner is:',
+  'winner.prize': 'Prize:',
+  'winner.absent': 'Absent: draw again',
+  'winner.knockedOutTitle': 'Out of the round!',
+  'winner.knockedOutLabel': 'Eliminated:',
+  'winner.survivorTitle': 'Last one standing!',
+
+  'app.options': 'Options',
+  'app.predefine': 'Preset winner',
+  'app.predefineTitle': '🎯 Preset Winner',
+  'app.predefinePlaceholder': 'Select a preset winner...',
+  'app.predefined': 'Preset winner:',
+  'app.newSession': 'New session',
+  'app.clearOptions': 'Remove all options',
+  'app.openAudience': 'Open audience display',
+  'app.mute': 'Mute',
+  'app.unmute': 'Unmute',
+  'app.inputPlaceholder': 'Enter multiple options (one per line, Name;5 for 5 tickets, Name;5;Branch to set the category)',
+  'app.processing': 'Processing… {percent}',
+  'app.addOptions': 'Add options',
+  'app.importFile': 'Import file',
+  'app.available': 'Available options: {count}',
+  'app.restoreEliminated': 'Restore eliminated',
+  'app.totals': 'Total: {total} | Eliminated: {eliminated} | Tickets in play: {tickets}',
+  'app.totalsKeep': 'Total: {total} | Winners: {winners} | Tickets in play: {tickets}',
+  'app.totalsLastStanding': 'Total: {total} | Eliminated: {eliminated} | Still standing: {remaining}',
+  'app.start': 'Start',
+  'app.spin': 'Spin the Wheel',
+  'app.spinning': 'Spinning!',
+  'app.expressCount': 'Number of winners',
+  'app.express': 'Express draw',
+  'app.revealOneByOne': 'Reveal one by one',
+  'app.seedRevealed': 'Seed revealed',
+  'app.commitment': 'Draw commitment (SHA-256)',
+  'app.allEliminated': 'All options have been eliminated!',
+  'app.restoreAll': 'Restore all options',
+  'app.resumeTitle': 'Resume previous draw?',
+  'app.resumeSaved': 'There is a session saved on {date}.',
+  'app.resumeTotals': 'Total: {total} | Eliminated: {eliminated}',
+  'app.resumeLocked': 'The public draw is locked: resume it and unlock it with the PIN to start another session.',
+  'app.resume': 'Resume',
+  'app.confirmNewSession': 'Start a new session? The current options and winners will be lost.',
+  'app.confirmReveal': 'Reveal the seed? No more verifiable spins will be possible.',
+  'app.confirmUndo': 'Undo the draw of {name}? They will go back on the wheel and the draw will be removed from the history.',
+
+  'certificate.title': 'Draw certificate',
+  'certificate.heading': 'Official draw record',
+  'certificate.place': 'Place:',
+  'certificate.placePlaceholder': 'Main hall, head office',
+  'certificate.witnesses': 'Witnesses and signatories (one per line)',
+  'certificate.witnessesHint': 'Each name gets a signature line; if none are entered, the record leaves {count} blank lines.',
+  'certificate.period': 'First draw: {start} · Last draw: {end}',
+  'certificate.participants': 'Participants: {count} · Tickets: {tickets}',
+  'certificate.draws': 'Draws held: {count}',
+  'certificate.awarded': '{count} of {quantity}',
+  'certificate.noWinners': 'No winners.',
+  'certificate.winners': 'Winners',
+  'certificate.draw': 'Draw',
+  'certificate.winner': 'Winner',
+  'certificate.memberId': 'Member no.',
+  'certificate.time': 'Date and time',
+  'certificate.prize': 'Prize',
+  'certificate.notes': 'Notes',
+  'certificate.incidents': 'Absent, repeated and predefined winners',
+  'certificate.noIncidents': 'There were no absent, repeated or predefined winners.',
+  'certificate.absent': 'Absent, the prize was drawn again',
+  'certificate.repeated': 'Had already been drawn',
+  'certificate.verifiable': 'Verifiable draw',
+  'certificate.commitment': 'Commitment (SHA-256 of the seed):',
+  'certificate.listHash': 'Participant list fingerprint:',
+  'certificate.seed': 'Revealed seed:',
+  'certificate.seedPending': 'The seed has not been revealed yet.',
+  'certificate.audit': 'Audit trail',
+  'certificate.locked': 'Public draw locked with a PIN since {date}.',
+  'certificate.unlocked': 'The draw is not locked as a public draw.',
+  'certificate.auditIntact': 'Hash chain intact. Hash of the last event: {hash}',
+  'certificate.auditBroken': 'The audit trail was altered starting at event {sequence}.',
+  'certificate.auditEmpty': 'No configuration changes were recorded.',
+  'certificate.auditEvent': 'Event',
+  'certificate.auditHash': 'Hash',
+  'certificate.signature': 'Signature and printed name',
+  'certificate.generated': 'Record generated on {date}',
+  'certificate.print': 'Print or save as PDF',
+  'certificate.download': 'Download HTML',
+  'certificate.filename': 'certificate-{date}.html',
+  'certificate.popupBlocked': 'The browser blocked the print window. Allow pop-ups or download the record.',
+  'certificate.predefined': 'Winner predefined by the operator',
+  'certificate.auditDownload': 'Download audit trail ({count} events)',
+  'certificate.auditFilename': 'audit-{date}.json',
+  'certificate.auditUnverified': 'The audit trail could not be verified in this browser; the certificate cannot be issued.',
+
+  'categories.title': 'Categories',
+  'categories.none': 'No category',
+  'categories.counts': '{available} of {total} · {winners} winners',
+  'categories.filterHint': 'Tick the categories included in the next spin; with none ticked, all are included.',
+  'categories.quota': 'Maximum winners per category',
+  'categories.noLimit': 'No limit',
+  'categories.verifiable': 'The verifiable draw uses the frozen list, without filter or quotas.',
+  'categories.noneEligible': 'No available participant matches the category filter or quotas.',
+
+  'gameMode.title': 'Game mode',
+  'gameMode.eliminateWinner': 'Eliminate the winner',
+  'gameMode.eliminateWinnerHint': 'Each winner leaves the wheel and cannot be drawn again.',
+  'gameMode.keepWinner': 'Keep the winner',
+  'gameMode.keepWinnerHint': 'The winner stays on the wheel and can win again. Not available in the verifiable draw.',
+  'gameMode.lastStanding': 'Last one standing',
+  'gameMode.lastStandingHint': 'Whoever the arrow lands on is out; the last one left is the winner.',
+  'gameMode.remaining': '{count} still standing',
+  'gameMode.stillPlaying': 'Stays in the draw.',
+  'gameMode.roundOver': '{name} is the last one standing!',
+  'gameMode.newRound': 'New round',
+  'gameMode.noRoundsVerifiable': 'A verifiable draw has a single round. Reveal the seed to close it.',
+
+  'publicLock.title': 'Public draw',
+  'publicLock.description': 'Locks the list, prizes, game mode and predefined winner until the PIN is entered. Every configuration change is kept in an audit trail printed on the certificate.',
+  'publicLock.activeTitle': 'Public draw locked',
+  'publicLock.lockedAt': 'Locked on {date}. Enter the PIN to unlock.',
+  'publicLock.pin': 'PIN',
+  'publicLock.confirmPin': 'Repeat PIN',
+  'publicLock.lock': 'Lock draw',
+  'publicLock.unlock': 'Unlock',
+  'publicLock.pinTooShort': 'The PIN must have at least {count} characters.',
+  'publicLock.pinMismatch': 'The PINs do not match.',
+  'publicLock.cryptoUnavailable': 'The browser could not hash the PIN. Open the wheel over https or from localhost.',
+  'publicLock.wrongPin': 'Wrong PIN. The attempt was recorded.',
+  'publicLock.badge': 'Public draw: configuration locked',
+
+  'audit.entriesAdded': 'Participants added: {count} ({tickets} tickets)',
+  'audit.entryRemoved': 'Participant removed: {name}',
+  'audit.entriesCleared': 'List cleared ({count} participants)',
+  'audit.eliminatedRestored': 'Eliminated restored: {count}',
+  'audit.prizesChanged': 'Prizes changed: {count} prizes, {quantity} units',
+  'audit.settingsChanged': 'Settings changed: {fields}',
+  'audit.gameModeChanged': 'Game mode: {mode}',
+  'audit.categoryRulesChanged': 'Category rules: filter {filter}, quota {quota}',
+  'audit.allCategories': 'all',
+  'audit.predefinedWinnerSet': 'Predefined winner chosen: {name}',
+  'audit.verifiableActivated': 'Verifiable mode activated. Commitment: {commitment}',
+  'audit.seedRevealed': 'Seed revealed',
+  'audit.drawUndone': 'Draw undone: {name}',
+  'audit.absentMarked': 'Winner marked absent: {name}',
+  'audit.locked': 'Public draw locked: {participants} participants, {tickets} tickets, list fingerprint {listHash}',
+  'audit.unlocked': 'Public draw unlocked with the PIN',
+  'audit.unlockFailed': 'Unlock attempt with a wrong PIN',
+  'audit.scheduledSpinRun': 'Spin scheduled for {at}: {participants} participants on the wheel',
+  'audit.scheduledSpinSkipped': 'Spin scheduled for {at} not run: {reason}',
+
+  'widget.waiting': 'Waiting for the list of participants…',
+  'widget.errors.invalidCommand': 'Unknown command or invalid data.',
+  'widget.errors.busy': 'The wheel is spinning.',
+  'widget.errors.cannotSpin': 'There are not enough participants or all prizes have been awarded.',
+
+  'schedule.title': 'Scheduled spins',
+  'schedule.description': 'The wheel spins by itself at the chosen time. The participant list is locked while the countdown runs.',
+  'schedule.time': 'Spin time',
+  'schedule.countdownSeconds': 'Countdown (seconds)',
+  'schedule.add': 'Schedule spin',
+  'schedule.remove': 'Remove from queue',
+  'schedule.empty': 'No spins scheduled.',
+  'schedule.item': '{number}. {date} · {seconds} s countdown',
+  'schedule.pastTime': 'Choose a future time.',
+  'schedule.duplicateTime': 'A spin is already scheduled for that time.',
+  'schedule.countdown': 'Draw starts in',
+  'schedule.skipped': 'The scheduled spin did not run: {reason}',
+  'schedule.reasons.seedRevealed': 'the verifiable draw seed was already revealed',
+  'schedule.reasons.prizesComplete': 'all prizes were already awarded',
+  'schedule.reasons.notEnoughParticipants': 'there are not enough participants',
+};
+
+export default en;
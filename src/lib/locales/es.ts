@@ -0,0 +1,347 @@
+// Textos de la interfaz en español; es el catálogo de referencia y define las claves disponibles
+const es = {
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.yes': 'sí',
+  'common.no': 'no',
+
+  'duplicates.title': 'Participantes repetidos',
+  'duplicates.description': '{count} de los {total} participantes nuevos ya están en la lista (mismo número de socio o mismo nombre).',
+  'duplicates.more': '… y {count} más',
+  'duplicates.merge': 'Combinar',
+  'duplicates.mergeHint': 'Sumar los boletos al participante existente',
+  'duplicates.keep': 'Mantener',
+  'duplicates.keepHint': 'Agregarlos como participantes distintos',
+  'duplicates.reject': 'Rechazar',
+  'duplicates.rejectHint': 'No agregar los repetidos',
+
+  'express.title': '¡Felicidades a los {count} ganadores!',
+  'express.knockedOutTitle': 'Quedan fuera {count} participantes',
+  'express.showAll': 'Mostrar todos',
+  'express.revealNext': 'Revelar siguiente',
+  'express.knockedOut': 'fuera',
+
+  'prizes.summaryTitle': 'Premios entregados',
+  'prizes.title': 'Premios',
+  'prizes.hasWinners': 'El premio ya tiene ganadores',
+  'prizes.remove': 'Quitar premio',
+  'prizes.namePlaceholder': 'Premio',
+  'prizes.quantity': 'Cantidad',
+
+  'verifiable.title': 'Sorteo verificable',
+  'verifiable.description': 'Congela la lista actual y publica el compromiso de una semilla secreta. Al final se revela la semilla para que cualquiera recalcule los ganadores.',
+  'verifiable.activate': 'Activar modo verificable',
+  'verifiable.cryptoUnavailable': 'El navegador no pudo generar la semilla ni los hashes. Abre la ruleta desde https o localhost.',
+  'verifiable.activeTitle': 'Sorteo verificable activo',
+  'verifiable.commitment': 'Compromiso de la semilla (SHA-256):',
+  'verifiable.listHash': 'Huella de la lista ({count} participantes):',
+  'verifiable.draws': 'Giros verificables: {count}',
+  'verifiable.revealedSeed': 'Semilla revelada:',
+  'verifiable.bundleFilename': 'comprobante-sorteo.json',
+  'verifiable.bundle': 'Comprobante',
+  'verifiable.exit': 'Salir del modo',
+  'verifiable.openVerifier': 'Abrir verificador',
+  'verifiable.reveal': 'Terminar y revelar semilla',
+
+  'history.title': 'Historial de giros',
+  'history.empty': 'Todavía no hay giros registrados.',
+  'history.time': 'Hora',
+  'history.winner': 'Ganador',
+  'history.prize': 'Premio',
+  'history.available': 'Disponibles',
+  'history.redraw': '(repetido)',
+  'history.filename': 'sorteo-{date}.{extension}',
+  'history.exportCsv': 'Exportar CSV',
+  'history.exportJson': 'Exportar JSON',
+  'history.absent': '(ausente)',
+  'history.knockedOut': '(fuera de la ronda)',
+  'history.survivor': '(último en pie)',
+  'history.markAbsent': 'Marcar ausente: el premio se vuelve a sortear',
+  'history.undo': 'Deshacer último giro',
+  'history.undoHint': 'Devuelve al último ganador a la ruleta y borra el giro del historial',
+  'history.predefined': '(predefinido)',
+
+  'import.errors.xls': 'El formato .xls antiguo no está soportado, guarda el archivo como .xlsx o .csv',
+  'import.errors.notXlsx': 'El archivo no es un libro de Excel (.xlsx) válido',
+  'import.errors.corruptEntry': 'Entrada dañada en el archivo: {name}',
+  'import.errors.compression': 'Compresión no soportada en {name}',
+  'import.errors.noSheets': 'El libro no contiene hojas',
+  'import.errors.firstSheet': 'No se encontró la primera hoja del libro',
+  'import.title': 'Importar participantes',
+  'import.genericColumn': 'Columna {number}',
+  'import.reading': 'Leyendo archivo… {percent}%',
+  'import.dropHint': 'Arrastra un archivo CSV o Excel (.xlsx), o haz clic para elegirlo',
+  'import.hasHeader': 'La primera fila es cabecera',
+  'import.labelColumn': 'Nombre a mostrar:',
+  'import.weightColumn': 'Boletos',
+  'import.weightNone': '1 por participante',
+  'import.memberIdColumn': 'Nº de socio',
+  'import.memberIdNone': 'Sin número',
+  'import.categoryColumn': 'Categoría',
+  'import.categoryNone': 'Sin categoría',
+  'import.roleLabel': '{name} (nombre)',
+  'import.roleWeight': '{name} (boletos)',
+  'import.roleMemberId': '{name} (nº de socio)',
+  'import.roleCategory': '{name} (categoría)',
+  'import.summary': 'Se importarán {count} participantes. Filas omitidas: {skipped}',
+  'import.skippedRow': 'Fila {row}: {reason}',
+  'import.skip.empty': 'Fila vacía',
+  'import.skip.missingLabel': 'Sin valor en "{column}"',
+  'import.skip.invalidWeight': 'Cantidad inválida en "{column}"',
+  'import.submit': 'Importar participantes',
+  'import.submitCount': 'Importar {count} participantes',
+
+  'theme.errors.json': 'El archivo de tema no es un JSON válido',
+  'theme.errors.format': 'El archivo de tema no tiene el formato esperado',
+  'theme.errors.image': 'El archivo no es una imagen',
+  'theme.title': 'Tema y marca',
+  'theme.chooseImage': 'Elegir imagen',
+  'theme.removeImage': 'Quitar imagen',
+  'theme.eventTitle': 'Título del evento',
+  'theme.centerText': 'Texto del centro (si no hay logo)',
+  'theme.logo': 'Logo del centro',
+  'theme.background': 'Imagen de fondo',
+  'theme.font': 'Tipografía',
+  'theme.fonts.default': 'Predeterminada',
+  'theme.fonts.sans': 'Sans serif',
+  'theme.fonts.serif': 'Serif',
+  'theme.fonts.rounded': 'Redondeada',
+  'theme.fonts.impact': 'Impacto',
+  'theme.fonts.mono': 'Monoespaciada',
+  'theme.palette': 'Colores de las rebanadas (rebanada / texto)',
+  'theme.sliceColor': 'Rebanada',
+  'theme.textColor': 'Texto',
+  'theme.removeColor': 'Quitar color',
+  'theme.addColor': 'Agregar color',
+  'theme.paletteHint': 'El primer color también se usa en el borde y el segundo en el centro.',
+  'theme.load': 'Cargar tema',
+  'theme.filename': 'tema-ruleta.json',
+  'theme.save': 'Guardar tema',
+  'theme.reset': 'Tema original',
+
+  'options.searchPlaceholder': 'Buscar por nombre, nº de socio, categoría o datos',
+  'options.searchResults': '{count} resultados',
+
+  'settings.title': 'Ajustes del evento',
+  'settings.scope': 'Aplicar a',
+  'settings.scopeEvent': 'Todo el evento',
+  'settings.scopePrize': 'Premio: {name}',
+  'settings.prizeHint': 'Los valores sin cambiar usan los del evento. Al sortear este premio se usan los propios.',
+  'settings.spinDuration': 'Duración del giro',
+  'settings.minSpins': 'Vueltas mínimas',
+  'settings.optionChangeSpeed': 'Cambio de nombres al arrancar',
+  'settings.confettiParticles': 'Confeti (0 lo desactiva)',
+  'settings.spinVolume': 'Volumen del giro',
+  'settings.winVolume': 'Volumen del ganador',
+  'settings.divisions': 'Rebanadas con listas grandes',
+  'settings.units.seconds': 's',
+  'settings.units.milliseconds': 'ms',
+  'settings.units.percent': '%',
+  'settings.units.spins': 'vueltas',
+  'settings.units.particles': 'partículas',
+  'settings.units.slices': 'rebanadas',
+  'settings.useEventValue': 'Usar el valor del evento',
+  'settings.sound': 'Sonido',
+  'settings.soundPack': 'Paquete de sonidos',
+  'settings.masterVolume': 'Volumen general',
+  'settings.mute': 'Silenciar',
+  'settings.preview': 'Probar',
+  'settings.reset': 'Valores de fábrica',
+
+  'sound.packs.classic': 'Clásico',
+  'sound.packs.wood': 'Madera',
+  'sound.packs.arcade': 'Arcade',
+  'sound.packs.soft': 'Suave',
+
+  'language.label': 'Idioma',
+
+  'verifier.invalidBundle': 'El archivo no es un comprobante de sorteo válido',
+  'verifier.title': 'Verificador de sorteo',
+  'verifier.description': 'Carga el comprobante publicado al final del evento. Cada ganador se recalcula con SHA-256 de la semilla y el número de giro sobre las opciones que seguían en juego.',
+  'verifier.loadFile': 'Cargar archivo',
+  'verifier.placeholder': 'Pega aquí el comprobante JSON',
+  'verifier.verify': 'Verificar',
+  'verifier.ok': 'El sorteo es correcto',
+  'verifier.mismatch': 'El comprobante no coincide',
+  'verifier.commitmentOk': 'La semilla coincide con el compromiso publicado',
+  'verifier.listHashOk': 'La lista de participantes coincide con su huella',
+  'verifier.draw': 'Giro',
+  'verifier.recorded': 'Registrado',
+  'verifier.expected': 'Recalculado',
+
+  'audience.waiting': 'Esperando a la consola del operador…',
+  'audience.unsupported': 'Este navegador no permite sincronizar la pantalla del público.',
+
+  'wheel.prize': 'Premio: {name} ({number} de {quantity})',
+
+  'winner.title': '¡Felicidades al Ganador!',
+  'winner.label': 'El ganador es:',
+  'winner.prize': 'Premio:',
+  'winner.absent': 'Ausente: volver a sortear',
+  'winner.knockedOutTitle': '¡Fuera de la ronda!',
+  'winner.knockedOutLabel': 'Queda eliminado:',
+  'winner.survivorTitle': '¡Último en pie!',
+
+  'app.options': 'Opciones',
+  'app.predefine': 'Predefinir ganador',
+  'app.predefineTitle': '🎯 Predefinir Ganador',
+  'app.predefinePlaceholder': 'Seleccionar ganador predefinido...',
+  'app.predefined': 'Ganador predefinido:',
+  'app.newSession': 'Nueva sesión',
+  'app.clearOptions': 'Eliminar todas las opciones',
+  'app.openAudience': 'Abrir pantalla del público',
+  'app.mute': 'Silenciar',
+  'app.unmute': 'Activar sonido',
+  'app.inputPlaceholder': 'Ingresa múltiples opciones (una por línea, Nombre;5 para 5 boletos, Nombre;5;Sucursal para indicar la categoría)',
+  'app.processing': 'Procesando… {percent}',
+  'app.addOptions': 'Agregar opciones',
+  'app.importFile': 'Importar archivo',
+  'app.available': 'Opciones disponibles: {count}',
+  'app.restoreEliminated': 'Restaurar eliminados',
+  'app.totals': 'Total: {total} | Eliminados: {eliminated} | Boletos en juego: {tickets}',
+  'app.totalsKeep': 'Total: {total} | Ganadores: {winners} | Boletos en juego: {tickets}',
+  'app.totalsLastStanding': 'Total: {total} | Eliminados: {eliminated} | Quedan en pie: {remaining}',
+  'app.start': 'Comenzar',
+  'app.spin': 'Girar Ruleta',
+  'app.spinning': '¡Girando!',
+  'app.expressCount': 'Cantidad de ganadores',
+  'app.express': 'Sorteo exprés',
+  'app.revealOneByOne': 'Revelar uno a uno',
+  'app.seedRevealed': 'Semilla revelada',
+  'app.commitment': 'Compromiso del sorteo (SHA-256)',
+  'app.allEliminated': '¡Todas las opciones han sido eliminadas!',
+  'app.restoreAll': 'Restaurar todas las opciones',
+  'app.resumeTitle': '¿Reanudar sorteo anterior?',
+  'app.resumeSaved': 'Hay una sesión guardada el {date}.',
+  'app.resumeTotals': 'Total: {total} | Eliminados: {eliminated}',
+  'app.resumeLocked': 'El sorteo público está bloqueado: reanúdalo y desbloquéalo con el PIN para empezar otra sesión.',
+  'app.resume': 'Reanudar',
+  'app.confirmNewSession': '¿Iniciar una sesión nueva? Se perderán las opciones y ganadores actuales.',
+  'app.confirmReveal': '¿Revelar la semilla? No se podrán hacer más giros verificables.',
+  'app.confirmUndo': '¿Deshacer el giro de {name}? Volverá a la ruleta y el giro se borrará del historial.',
+
+  'certificate.title': 'Acta del sorteo',
+  'certificate.heading': 'Acta de sorteo',
+  'certificate.place': 'Lugar:',
+  'certificate.placePlaceholder': 'Salón de actos, sede central',
+  'certificate.witnesses': 'Testigos y firmantes (uno por línea)',
+  'certificate.witnessesHint': 'Cada nombre lleva su línea de firma; si no se cargan, el acta deja {count} líneas en blanco.',
+  'certificate.period': 'Primer giro: {start} · Último giro: {end}',
+  'certificate.participants': 'Participantes: {count} · Boletos: {tickets}',
+  'certificate.draws': 'Giros realizados: {count}',
+  'certificate.awarded': '{count} de {quantity}',
+  'certificate.noWinners': 'Sin ganadores.',
+  'certificate.winners': 'Ganadores',
+  'certificate.draw': 'Giro',
+  'certificate.winner': 'Ganador',
+  'certificate.memberId': 'N.º de socio',
+  'certificate.time': 'Fecha y hora',
+  'certificate.prize': 'Premio',
+  'certificate.notes': 'Observaciones',
+  'certificate.incidents': 'Ausentes, repetidos y predefinidos',
+  'certificate.noIncidents': 'No hubo ausentes, ganadores repetidos ni predefinidos.',
+  'certificate.absent': 'Ausente, el premio se sorteó de nuevo',
+  'certificate.repeated': 'Ya había salido antes',
+  'certificate.verifiable': 'Sorteo verificable',
+  'certificate.commitment': 'Compromiso (SHA-256 de la semilla):',
+  'certificate.listHash': 'Huella de la lista de participantes:',
+  'certificate.seed': 'Semilla revelada:',
+  'certificate.seedPending': 'La semilla todavía no fue revelada.',
+  'certificate.audit': 'Registro de auditoría',
+  'certificate.locked': 'Sorteo público bloqueado con PIN desde el {date}.',
+  'certificate.unlocked': 'El sorteo no está bloqueado como sorteo público.',
+  'certificate.auditIntact': 'Cadena de hashes íntegra. Hash del último evento: {hash}',
+  'certificate.auditBroken': 'El registro de auditoría fue alterado a partir del evento {sequence}.',
+  'certificate.auditEmpty': 'No se registraron cambios de configuración.',
+  'certificate.auditEvent': 'Evento',
+  'certificate.auditHash': 'Hash',
+  'certificate.signature': 'Firma y aclaración',
+  'certificate.generated': 'Acta generada el {date}',
+  'certificate.print': 'Imprimir o guardar PDF',
+  'certificate.download': 'Descargar HTML',
+  'certificate.filename': 'acta-{date}.html',
+  'certificate.popupBlocked': 'El navegador bloqueó la ventana de impresión. Permite las ventanas emergentes o descarga el acta.',
+  'certificate.predefined': 'Ganador predefinido por el operador',
+  'certificate.auditDownload': 'Descargar registro de auditoría ({count} eventos)',
+  'certificate.auditFilename': 'auditoria-{date}.json',
+  'certificate.auditUnverified': 'No se pudo verificar el registro de auditoría en este navegador; el acta no se puede emitir.',
+
+  'categories.title': 'Categorías',
+  'categories.none': 'Sin categoría',
+  'categories.counts': '{available} de {total} · {winners} ganadores',
+  'categories.filterHint': 'Marca las categorías que entran en el próximo giro; sin marcar entran todas.',
+  'categories.quota': 'Máximo de ganadores por categoría',
+  'categories.noLimit': 'Sin límite',
+  'categories.verifiable': 'En el sorteo verificable se sortea sobre la lista congelada, sin filtro ni cupos.',
+  'categories.noneEligible': 'Ningún participante disponible cumple el filtro de categorías o los cupos.',
+
+  'gameMode.title': 'Modo de juego',
+  'gameMode.eliminateWinner': 'Eliminar al ganador',
+  'gameMode.eliminateWinnerHint': 'Cada ganador sale de la ruleta y no puede volver a salir.',
+  'gameMode.keepWinner': 'Mantener al ganador',
+  'gameMode.keepWinnerHint': 'El ganador sigue en la ruleta y puede volver a ganar. No disponible en el sorteo verificable.',
+  'gameMode.lastStanding': 'Último en pie',
+  'gameMode.lastStandingHint': 'Donde cae la flecha, ese participante queda fuera; el último que queda es el ganador.',
+  'gameMode.remaining': 'Quedan {count} en pie',
+  'gameMode.stillPlaying': 'Sigue participando en la ruleta.',
+  'gameMode.roundOver': '¡{name} es el último en pie!',
+  'gameMode.newRound': 'Nueva ronda',
+  'gameMode.noRoundsVerifiable': 'En el sorteo verificable hay una sola ronda. Revela la semilla para cerrarlo.',
+
+  'publicLock.title': 'Sorteo público',
+  'publicLock.description': 'Bloquea la lista, los premios, el modo de juego y el ganador predefinido hasta ingresar el PIN. Cada cambio de configuración queda en un registro de auditoría que se imprime en el acta.',
+  'publicLock.activeTitle': 'Sorteo público bloqueado',
+  'publicLock.lockedAt': 'Bloqueado el {date}. Ingresa el PIN para desbloquear.',
+  'publicLock.pin': 'PIN',
+  'publicLock.confirmPin': 'Repetir PIN',
+  'publicLock.lock': 'Bloquear sorteo',
+  'publicLock.unlock': 'Desbloquear',
+  'publicLock.pinTooShort': 'El PIN debe tener al menos {count} caracteres.',
+  'publicLock.pinMismatch': 'Los PIN no coinciden.',
+  'publicLock.cryptoUnavailable': 'El navegador no pudo calcular el hash del PIN. Abre la ruleta desde https o localhost.',
+  'publicLock.wrongPin': 'PIN incorrecto. El intento quedó registrado.',
+  'publicLock.badge': 'Sorteo público: configuración bloqueada',
+
+  'audit.entriesAdded': 'Participantes agregados: {count} ({tickets} boletos)',
+  'audit.entryRemoved': 'Participante quitado: {name}',
+  'audit.entriesCleared': 'Lista vaciada ({count} participantes)',
+  'audit.eliminatedRestored': 'Eliminados restaurados: {count}',
+  'audit.prizesChanged': 'Premios cambiados: {count} premios, {quantity} unidades',
+  'audit.settingsChanged': 'Ajustes cambiados: {fields}',
+  'audit.gameModeChanged': 'Modo de juego: {mode}',
+  'audit.categoryRulesChanged': 'Reglas de categorías: filtro {filter}, cupo {quota}',
+  'audit.allCategories': 'todas',
+  'audit.predefinedWinnerSet': 'Ganador predefinido elegido: {name}',
+  'audit.verifiableActivated': 'Modo verificable activado. Compromiso: {commitment}',
+  'audit.seedRevealed': 'Semilla revelada',
+  'audit.drawUndone': 'Giro deshecho: {name}',
+  'audit.absentMarked': 'Ganador marcado ausente: {name}',
+  'audit.locked': 'Sorteo público bloqueado: {participants} participantes, {tickets} boletos, huella de la lista {listHash}',
+  'audit.unlocked': 'Sorteo público desbloqueado con el PIN',
+  'audit.unlockFailed': 'Intento de desbloqueo con PIN incorrecto',
+  'audit.scheduledSpinRun': 'Giro programado para {at}: {participants} participantes en la ruleta',
+  'audit.scheduledSpinSkipped': 'Giro programado para {at} no realizado: {reason}',
+
+  'widget.waiting': 'Esperando la lista de participantes…',
+  'widget.errors.invalidCommand': 'Comando desconocido o con datos inválidos.',
+  'widget.errors.busy': 'La ruleta está girando.',
+  'widget.errors.cannotSpin': 'No hay participantes suficientes o ya se entregaron todos los premios.',
+
+  'schedule.title': 'Giros programados',
+  'schedule.description': 'La ruleta gira sola a la hora indicada. Durante la cuenta regresiva la lista de participantes queda bloqueada.',
+  'schedule.time': 'Hora del giro',
+  'schedule.countdownSeconds': 'Cuenta regresiva (segundos)',
+  'schedule.add': 'Programar giro',
+  'schedule.remove': 'Quitar de la cola',
+  'schedule.empty': 'No hay giros programados.',
+  'schedule.item': '{number}. {date} · cuenta de {seconds} s',
+  'schedule.pastTime': 'Elige una hora futura.',
+  'schedule.duplicateTime': 'Ya hay un giro programado a esa hora.',
+  'schedule.countdown': 'El sorteo empieza en',
+  'schedule.skipped': 'El giro programado no se hizo: {reason}',
+  'schedule.reasons.seedRevealed': 'la semilla del sorteo verificable ya se reveló',
+  'schedule.reasons.prizesComplete': 'ya se entregaron todos los premios',
+  'schedule.reasons.notEnoughParticipants': 'no hay participantes suficientes',
+};
+
+export default es;
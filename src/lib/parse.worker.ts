@@ -0,0 +1,46 @@
+import type { Entry } from '../types';
+import { parseOptionLine } from './entries';
+import { parseCsv } from './importers/csv';
+
+// Pedido al worker: texto pegado (una opción por línea) o contenido de un CSV
+export type ParseRequest =
+  | { kind: 'options'; text: string }
+  | { kind: 'csv'; text: string };
+
+// Respuestas del worker: avances y resultado final
+export type ParseResponse =
+  | { type: 'progress'; processed: number; total: number }
+  | { type: 'options'; entries: Entry[] }
+  | { type: 'csv'; rows: string[][] }
+  | { type: 'error'; message: string };
+
+const CHUNK_SIZE = 5000; // Líneas entre avisos de progreso
+
+const reply = (response: ParseResponse) => self.postMessage(response);
+
+// Analizar el texto pegado por bloques informando el avance
+const parseOptions = (text: string) => {
+  const lines = text.split('\n');
+  const entries: Entry[] = [];
+  for (let i = 0; i < lines.length; i += CHUNK_SIZE) {
+    for (const line of lines.slice(i, i + CHUNK_SIZE)) {
+      const entry = parseOptionLine(line);
+      if (entry) entries.push(entry);
+    }
+    reply({ type: 'progress', processed: Math.min(i + CHUNK_SIZE, lines.length), total: lines.length });
+  }
+  reply({ type: 'options', entries });
+};
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  try {
+    if (event.data.kind === 'options') {
+      parseOptions(event.data.text);
+    } else {
+      const rows = parseCsv(event.data.text, (processed, total) => reply({ type: 'progress', processed, total }));
+      reply({ type: 'csv', rows });
+    }
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
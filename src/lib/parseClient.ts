@@ -0,0 +1,50 @@
+import type { Entry } from '../types';
+import type { ParseRequest, ParseResponse } from './parse.worker';
+
+// Avance del análisis, de 0 a 1
+export type ProgressHandler = (fraction: number) => void;
+
+// Ejecutar un análisis en un worker propio, terminándolo al recibir el resultado
+const runInWorker = <T>(
+  request: ParseRequest,
+  onProgress: ProgressHandler | undefined,
+  pick: (response: ParseResponse) => T | undefined
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parse.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.total > 0 ? response.processed / response.total : 1);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+        return;
+      }
+      const result = pick(response);
+      if (result === undefined) reject(new Error('Respuesta inesperada del análisis'));
+      else resolve(result);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+};
+
+// Convertir el texto pegado en participantes sin bloquear la interfaz
+export const parseOptionsText = (text: string, onProgress?: ProgressHandler): Promise<Entry[]> => {
+  return runInWorker({ kind: 'options', text }, onProgress, response =>
+    response.type === 'options' ? response.entries : undefined
+  );
+};
+
+// Leer un CSV en segundo plano
+export const parseCsvText = (text: string, onProgress?: ProgressHandler): Promise<string[][]> => {
+  return runInWorker({ kind: 'csv', text }, onProgress, response =>
+    response.type === 'csv' ? response.rows : undefined
+  );
+};
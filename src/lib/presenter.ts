@@ -0,0 +1,49 @@
+import type { WheelSegment } from './wheelGeometry';
+import type { Theme } from '../types';
+import type { DrawOutcome } from './gameModes';
+
+// Canal compartido entre la consola del operador y la pantalla del público
+export const PRESENTER_CHANNEL = 'ruleta-presentacion';
+
+// Giro en curso: el público lo anima por su cuenta a partir de estos datos
+export interface SpinPlan {
+  from: number;
+  to: number;
+  startedAt: number; // Date.now() al iniciar, común a ambas ventanas
+  duration: number;
+}
+
+// Lo que ve el público: sin lista de opciones ni controles del operador
+export interface AudienceState {
+  segments: WheelSegment[];
+  showLabels: boolean;
+  rotation: number; // Rotación en reposo o al terminar el giro en curso
+  spin: SpinPlan | null;
+  prize: { name: string; number: number; quantity: number } | null; // Premio que se está sorteando y cuál de sus unidades
+  winner: string | null; // Ganador mostrado en el modal
+  winnerOutcome: DrawOutcome; // Ganador, eliminado o último en pie, según el modo de juego
+  winnerPrize: string | null;
+  confettiParticles: number; // Confeti del premio entregado
+  countdownTo: number | null; // Hora del giro programado mientras dura su cuenta regresiva
+  theme: Theme;
+}
+
+export type PresenterMessage =
+  | { type: 'hello' } // La pantalla del público pide el estado actual
+  | { type: 'state'; state: AudienceState }
+  | { type: 'option'; option: string }; // Opción mostrada, cambia muy seguido durante el giro
+
+// Abrir el canal si el navegador lo soporta
+export const openPresenterChannel = (): BroadcastChannel | null => {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(PRESENTER_CHANNEL);
+};
+
+// Abrir (o enfocar) la ventana del público
+export const openAudienceWindow = () => {
+  window.open('publico.html', 'ruleta-publico');
+};
+
+// Enviar un mensaje tipado por el canal
+export const postPresenterMessage = (channel: BroadcastChannel | null, message: PresenterMessage) => {
+  channel?.postMessage(message);
+};
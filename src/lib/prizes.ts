@@ -0,0 +1,33 @@
+import type { DrawRecord, Prize } from '../types';
+import { createId } from './ids';
+
+// Premio con los giros que ya lo ganaron
+export interface PrizeAssignment {
+  prize: Prize;
+  winners: DrawRecord[];
+}
+
+// Crear un premio nuevo del catálogo
+export const createPrize = (name: string, quantity: number): Prize => ({
+  id: createId(),
+  name,
+  quantity,
+});
+
+// El giro dejó un ganador: no es un ausente ni un eliminado del modo último en pie
+export const isWinningRecord = (record: DrawRecord): boolean => {
+  return !record.absent && !record.knockedOut;
+};
+
+// Asignaciones premio → ganadores en el orden del catálogo; los ausentes liberan su lugar
+export const prizeAssignments = (prizes: Prize[], history: DrawRecord[]): PrizeAssignment[] => {
+  return prizes.map(prize => ({
+    prize,
+    winners: history.filter(record => record.prizeId === prize.id && isWinningRecord(record)),
+  }));
+};
+
+// Premio que se sortea en el próximo giro, o null si el catálogo está completo
+export const currentPrize = (prizes: Prize[], history: DrawRecord[]): PrizeAssignment | null => {
+  return prizeAssignments(prizes, history).find(assignment => assignment.winners.length < assignment.prize.quantity) ?? null;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRng, pickWeighted, randomFloat, randomInt } from './rng';
+import { checkWeightedFairness, chiSquare, chiSquareCritical } from './fairness';
+
+// Semilla fija: las pruebas estadísticas dan siempre el mismo resultado
+const seeded = () => createSeededRng(new Uint32Array([0x9e3779b9, 0x243f6a88, 0xb7e15162, 0x12345678]));
+
+const SAMPLES = 60000;
+
+describe('createSeededRng', () => {
+  it('repite la secuencia con la misma semilla', () => {
+    const a = seeded();
+    const b = seeded();
+    const first = Array.from({ length: 8 }, () => a.nextUint32());
+    expect(Array.from({ length: 8 }, () => b.nextUint32())).toEqual(first);
+  });
+});
+
+describe('randomInt', () => {
+  it('queda dentro del rango', () => {
+    const rng = seeded();
+    for (let i = 0; i < 1000; i++) {
+      const value = randomInt(rng, 7);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(7);
+    }
+  });
+
+  it('rechaza un máximo no positivo', () => {
+    expect(() => randomInt(seeded(), 0)).toThrow(RangeError);
+  });
+
+  it('reparte uniforme entre los valores', () => {
+    const rng = seeded();
+    const result = checkWeightedFairness(() => randomInt(rng, 10), new Array(10).fill(1), SAMPLES);
+    expect(result.passed).toBe(true);
+  });
+
+  it('no tiene sesgo de módulo con un máximo que no divide 2^32', () => {
+    const rng = seeded();
+    const max = 3 * 2 ** 29; // Sin rechazo, los menores que 2^30 saldrían 3 de cada 4 veces en lugar de 2 de cada 3
+    const result = checkWeightedFairness(() => (randomInt(rng, max) < 2 ** 30 ? 0 : 1), [2, 1], SAMPLES);
+    expect(result.passed).toBe(true);
+  });
+});
+
+describe('pickWeighted', () => {
+  it('elige en proporción a los pesos', () => {
+    const rng = seeded();
+    const weights = [1, 2, 3, 10, 4];
+    expect(checkWeightedFairness(() => pickWeighted(rng, weights), weights, SAMPLES).passed).toBe(true);
+  });
+
+  it('nunca elige un índice con peso 0', () => {
+    const rng = seeded();
+    const weights = [3, 0, 5, 0, 1];
+    expect(checkWeightedFairness(() => pickWeighted(rng, weights), weights, SAMPLES).passed).toBe(true);
+  });
+});
+
+describe('randomFloat', () => {
+  it('queda en [0, 1)', () => {
+    const rng = seeded();
+    for (let i = 0; i < 1000; i++) {
+      const value = randomFloat(rng);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('checkWeightedFairness', () => {
+  it('detecta un sorteo sesgado', () => {
+    const rng = seeded();
+    // Favorece al primero: sale la mitad de las veces aunque todos tienen el mismo peso
+    const biased = () => (randomInt(rng, 2) === 0 ? 0 : randomInt(rng, 4));
+    expect(checkWeightedFairness(biased, [1, 1, 1, 1], SAMPLES).passed).toBe(false);
+  });
+
+  it('falla si sale un índice con peso 0', () => {
+    const rng = seeded();
+    expect(checkWeightedFairness(() => randomInt(rng, 3), [1, 0, 1], 3000).passed).toBe(false);
+  });
+
+  it('calcula el estadístico y el valor crítico', () => {
+    expect(chiSquare([10, 20], [15, 15])).toBeCloseTo(10 / 3);
+    // Valor de tabla para 10 grados de libertad al 0,001: 29,588
+    expect(chiSquareCritical(10)).toBeCloseTo(29.588, 0);
+  });
+});
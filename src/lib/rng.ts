@@ -0,0 +1,82 @@
+// Generador de números aleatorios de 32 bits sin signo
+export interface Rng {
+  nextUint32(): number;
+}
+
+const UINT32_RANGE = 0x100000000;
+const CRYPTO_POOL_SIZE = 256;
+
+// Generador criptográfico (Web Crypto, en el navegador o en Node), con un pool para no llamar a getRandomValues en cada número
+export const createCryptoRng = (): Rng => {
+  const pool = new Uint32Array(CRYPTO_POOL_SIZE);
+  let position = CRYPTO_POOL_SIZE;
+  return {
+    nextUint32: () => {
+      if (position >= CRYPTO_POOL_SIZE) {
+        crypto.getRandomValues(pool);
+        position = 0;
+      }
+      return pool[position++];
+    },
+  };
+};
+
+// Generador determinista sfc32 a partir de una semilla de 4 palabras de 32 bits
+export const createSeededRng = (seed: Uint32Array): Rng => {
+  let a = seed[0] >>> 0;
+  let b = seed[1] >>> 0;
+  let c = seed[2] >>> 0;
+  let d = seed[3] >>> 0;
+
+  const next = () => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = ((c << 21) | (c >>> 11)) >>> 0;
+    c = (c + t) >>> 0;
+    return t;
+  };
+
+  // Descartar los primeros valores para mezclar bien el estado inicial
+  for (let i = 0; i < 12; i++) next();
+
+  return { nextUint32: next };
+};
+
+// Entero uniforme en [0, max) sin sesgo de módulo (muestreo por rechazo)
+export const randomInt = (rng: Rng, max: number): number => {
+  if (max <= 0) throw new RangeError('max debe ser mayor que 0');
+  const limit = UINT32_RANGE - (UINT32_RANGE % max);
+  let value = rng.nextUint32();
+  while (value >= limit) {
+    value = rng.nextUint32();
+  }
+  return value % max;
+};
+
+// Índice elegido con probabilidad proporcional a su peso entero
+export const pickWeighted = (rng: Rng, weights: number[]): number => {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const weight of weights) {
+    total += weight;
+    cumulative.push(total);
+  }
+  const target = randomInt(rng, total);
+
+  // Búsqueda binaria del primer acumulado mayor que el objetivo
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (cumulative[mid] > target) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+// Decimal uniforme en [0, 1)
+export const randomFloat = (rng: Rng): number => {
+  return rng.nextUint32() / UINT32_RANGE;
+};
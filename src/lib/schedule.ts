@@ -0,0 +1,54 @@
+import type { ScheduledSpin } from '../types';
+import type { MessageKey } from './i18n';
+import { createId } from './ids';
+
+// Cuenta regresiva propuesta al programar un giro
+export const DEFAULT_COUNTDOWN = 60;
+
+// Rango de la cuenta regresiva en segundos
+export const COUNTDOWN_LIMITS = { min: 5, max: 3600 };
+
+// Espera máxima de un temporizador: los navegadores disparan enseguida los que superan unos 24 días
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+// Por qué un giro programado no se pudo hacer a su hora
+export type ScheduleSkipReason = 'seedRevealed' | 'prizesComplete' | 'notEnoughParticipants';
+
+export const SKIP_REASON_MESSAGES: Record<ScheduleSkipReason, MessageKey> = {
+  seedRevealed: 'schedule.reasons.seedRevealed',
+  prizesComplete: 'schedule.reasons.prizesComplete',
+  notEnoughParticipants: 'schedule.reasons.notEnoughParticipants',
+};
+
+// Crear un giro programado con la cuenta regresiva dentro de rango
+export const createScheduledSpin = (at: number, countdown = DEFAULT_COUNTDOWN): ScheduledSpin => ({
+  id: createId(),
+  at,
+  countdown: Math.min(COUNTDOWN_LIMITS.max, Math.max(COUNTDOWN_LIMITS.min, Math.round(countdown))),
+});
+
+// Agregar un giro a la cola manteniendo el orden por hora
+export const addScheduledSpin = (schedule: ScheduledSpin[], spin: ScheduledSpin): ScheduledSpin[] => {
+  return [...schedule, spin].sort((a, b) => a.at - b.at);
+};
+
+// Momento en que empieza la cuenta regresiva de un giro
+export const countdownStart = (spin: ScheduledSpin): number => {
+  return spin.at - spin.countdown * 1000;
+};
+
+// Milisegundos hasta el próximo cambio (inicio de la cuenta regresiva o el giro), acotados para el temporizador
+export const delayUntilNextChange = (spin: ScheduledSpin, now: number): number => {
+  const start = countdownStart(spin);
+  const next = now < start ? start : spin.at;
+  return Math.min(MAX_TIMER_DELAY, Math.max(0, next - now));
+};
+
+// Cola guardada válida, sin los giros cuya hora ya pasó: no se gira solo al recuperar una sesión vieja
+export const normalizeSchedule = (stored: ScheduledSpin[] | undefined, now: number): ScheduledSpin[] => {
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(spin => typeof spin?.at === 'number' && spin.at > now)
+    .map(spin => createScheduledSpin(spin.at, typeof spin.countdown === 'number' ? spin.countdown : DEFAULT_COUNTDOWN))
+    .sort((a, b) => a.at - b.at);
+};
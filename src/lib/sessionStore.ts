@@ -0,0 +1,122 @@
+import type { AuditEvent, CategoryRules, DrawRecord, Entry, EventSettings, Option, SessionSnapshot, SoundPreferences, Theme } from '../types';
+import { createEntry } from './entries';
+import { createId } from './ids';
+import { normalizeCategoryRules } from './categories';
+import { normalizeAuditTrail } from './audit';
+import { normalizeSchedule } from './schedule';
+import { normalizeGameMode } from './gameModes';
+import { normalizeOverrides, normalizeSettings } from './settings';
+import { normalizeTheme } from './theme';
+import { normalizeSoundPreferences } from './sound';
+
+// IndexedDB permite guardar listas de cientos de miles de opciones sin el límite de localStorage
+const DB_NAME = 'ruleta';
+const DB_VERSION = 1;
+const STORE_NAME = 'session';
+const SESSION_KEY = 'current';
+
+// Abrir (o crear) la base de datos de la sesión
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Ejecutar una operación sobre el almacén y cerrar la conexión al terminar
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Sesión guardada por versiones anteriores: opciones como texto o sin boletos ni identificadores,
+// eliminados y ganador predefinido guardados por nombre, y sin ajustes, tema, sonido, modo de juego, reglas de categorías, auditoría ni giros programados
+type StoredSnapshot = Omit<SessionSnapshot, 'allOptions' | 'eliminatedIds' | 'winner' | 'history' | 'gameMode' | 'categoryRules' | 'auditTrail' | 'publicLock' | 'schedule' | 'settings' | 'theme' | 'sound'> & {
+  allOptions: ((Partial<Entry> & { value: string }) | string)[];
+  eliminatedIds?: string[];
+  eliminatedOptions?: string[];
+  winner: (Omit<Option, 'id'> & { id?: string }) | null;
+  history?: (Omit<DrawRecord, 'winnerId'> & { winnerId?: string })[];
+  gameMode?: string;
+  categoryRules?: Partial<CategoryRules>;
+  auditTrail?: AuditEvent[];
+  publicLock?: SessionSnapshot['publicLock'];
+  schedule?: SessionSnapshot['schedule'];
+  settings?: Partial<EventSettings>;
+  theme?: Partial<Theme>;
+  sound?: Partial<SoundPreferences>;
+};
+
+// Completar los datos que faltan en sesiones guardadas por versiones anteriores
+const migrateSnapshot = (stored: StoredSnapshot): SessionSnapshot => {
+  const allOptions = stored.allOptions.map(option =>
+    typeof option === 'string'
+      ? createEntry(option)
+      : { ...option, id: option.id ?? createId(), weight: option.weight ?? 1 }
+  );
+
+  let eliminatedIds = stored.eliminatedIds;
+  let predefinedWinner = stored.predefinedWinner;
+  if (!eliminatedIds) {
+    const eliminatedNames = new Set(stored.eliminatedOptions ?? []);
+    eliminatedIds = allOptions.filter(entry => eliminatedNames.has(entry.value)).map(entry => entry.id);
+    predefinedWinner = allOptions.find(entry => entry.value === predefinedWinner && !eliminatedNames.has(entry.value))?.id ?? '';
+  }
+
+  const idAt = (index: number) => allOptions[index]?.id ?? '';
+  return {
+    ...stored,
+    allOptions,
+    eliminatedIds,
+    predefinedWinner,
+    winner: stored.winner ? { ...stored.winner, id: stored.winner.id ?? idAt(stored.winner.index) } : null,
+    history: (stored.history ?? []).map(record => ({ ...record, winnerId: record.winnerId ?? idAt(record.originalIndex) })),
+    prizes: (stored.prizes ?? []).map(prize => (prize.settings ? { ...prize, settings: normalizeOverrides(prize.settings) } : prize)),
+    gameMode: normalizeGameMode(stored.gameMode),
+    categoryRules: normalizeCategoryRules(stored.categoryRules),
+    auditTrail: normalizeAuditTrail(stored.auditTrail),
+    publicLock: stored.publicLock ?? null,
+    schedule: normalizeSchedule(stored.schedule, Date.now()),
+    settings: normalizeSettings(stored.settings),
+    theme: normalizeTheme(stored.theme),
+    sound: normalizeSoundPreferences(stored.sound),
+  };
+};
+
+// Cargar la sesión guardada, o null si no hay ninguna válida
+export const loadSession = async (): Promise<SessionSnapshot | null> => {
+  const snapshot = await withStore<StoredSnapshot | undefined>('readonly', store =>
+    store.get(SESSION_KEY)
+  );
+  if (!snapshot || snapshot.version !== 1) return null;
+  return migrateSnapshot(snapshot);
+};
+
+// Guardar la sesión actual reemplazando la anterior
+export const saveSession = async (snapshot: SessionSnapshot): Promise<void> => {
+  await withStore('readwrite', store => store.put(snapshot, SESSION_KEY));
+};
+
+// Borrar la sesión guardada
+export const clearSession = async (): Promise<void> => {
+  await withStore('readwrite', store => store.delete(SESSION_KEY));
+};
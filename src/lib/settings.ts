@@ -0,0 +1,64 @@
+import type { EventSettings, Prize, SpinSettings } from '../types';
+
+// Valores de fábrica, los mismos que usaba la ruleta antes de poder configurarse
+export const DEFAULT_SETTINGS: EventSettings = {
+  spinDuration: 15000,
+  minSpins: 15,
+  optionChangeSpeed: 15,
+  confettiParticles: 400,
+  spinVolume: 0.3,
+  winVolume: 0.3,
+  divisions: 150,
+};
+
+// Rango permitido de cada ajuste
+export const SETTING_LIMITS: Record<keyof EventSettings, { min: number; max: number }> = {
+  spinDuration: { min: 1000, max: 60000 },
+  minSpins: { min: 1, max: 50 },
+  optionChangeSpeed: { min: 5, max: 200 },
+  confettiParticles: { min: 0, max: 1500 },
+  spinVolume: { min: 0, max: 1 },
+  winVolume: { min: 0, max: 1 },
+  divisions: { min: 12, max: 360 },
+};
+
+// Ajustes que un premio puede cambiar
+export const SPIN_SETTING_KEYS: (keyof SpinSettings)[] = [
+  'spinDuration',
+  'minSpins',
+  'optionChangeSpeed',
+  'confettiParticles',
+  'spinVolume',
+  'winVolume',
+];
+
+// Llevar un valor al rango del ajuste, o null si no es un número
+const clampSetting = (key: keyof EventSettings, value: unknown): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  const { min, max } = SETTING_LIMITS[key];
+  return Math.min(max, Math.max(min, value));
+};
+
+// Ajustes del evento completos y dentro de rango, p. ej. al cargar una sesión anterior
+export const normalizeSettings = (stored?: Partial<EventSettings>): EventSettings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof EventSettings)[]) {
+    settings[key] = clampSetting(key, stored?.[key]) ?? DEFAULT_SETTINGS[key];
+  }
+  return settings;
+};
+
+// Ajustes propios de un premio sin los valores inválidos
+export const normalizeOverrides = (stored?: Partial<SpinSettings>): Partial<SpinSettings> => {
+  const overrides: Partial<SpinSettings> = {};
+  for (const key of SPIN_SETTING_KEYS) {
+    const value = clampSetting(key, stored?.[key]);
+    if (value !== null) overrides[key] = value;
+  }
+  return overrides;
+};
+
+// Ajustes con los que se sortea un premio: los del evento con los del premio encima
+export const effectiveSettings = (settings: EventSettings, prize?: Prize): EventSettings => {
+  return { ...settings, ...prize?.settings };
+};
@@ -0,0 +1,146 @@
+import type { SoundPreferences } from '../types';
+import type { MessageKey } from './i18n';
+
+// Sonidos sintetizados con Web Audio: no dependen de archivos externos y funcionan sin internet
+
+// Nota de un sonido: forma de onda, frecuencia y momento dentro del sonido
+export interface Tone {
+  type: OscillatorType;
+  frequency: number;
+  endFrequency?: number; // Frecuencia al terminar, para barridos
+  delay: number; // Segundos desde el inicio del sonido
+  duration: number; // Segundos
+  gain: number; // Volumen relativo entre 0 y 1
+}
+
+// Conjunto de sonidos intercambiable
+export interface SoundPack {
+  id: string;
+  name: MessageKey;
+  tick: Tone[]; // Al pasar la flecha por cada rebanada
+  win: Tone[]; // Al mostrar el ganador
+}
+
+// Arpegio ascendente para el sonido del ganador
+const arpeggio = (type: OscillatorType, frequencies: number[], step: number, duration: number, gain: number): Tone[] => {
+  return frequencies.map((frequency, i) => ({ type, frequency, delay: i * step, duration, gain }));
+};
+
+export const SOUND_PACKS: SoundPack[] = [
+  {
+    id: 'clasico',
+    name: 'sound.packs.classic',
+    tick: [{ type: 'square', frequency: 1800, endFrequency: 900, delay: 0, duration: 0.03, gain: 0.35 }],
+    win: arpeggio('triangle', [523.25, 659.25, 783.99, 1046.5, 1318.51], 0.11, 0.5, 0.6),
+  },
+  {
+    id: 'madera',
+    name: 'sound.packs.wood',
+    tick: [{ type: 'triangle', frequency: 700, endFrequency: 350, delay: 0, duration: 0.05, gain: 0.7 }],
+    win: arpeggio('sine', [392, 493.88, 587.33, 783.99, 987.77, 1174.66], 0.09, 0.6, 0.7),
+  },
+  {
+    id: 'arcade',
+    name: 'sound.packs.arcade',
+    tick: [{ type: 'square', frequency: 1000, delay: 0, duration: 0.015, gain: 0.25 }],
+    win: [
+      ...arpeggio('square', [523.25, 659.25, 783.99, 1046.5], 0.07, 0.12, 0.3),
+      { type: 'square', frequency: 1046.5, endFrequency: 2093, delay: 0.3, duration: 0.4, gain: 0.3 },
+    ],
+  },
+  {
+    id: 'suave',
+    name: 'sound.packs.soft',
+    tick: [{ type: 'sine', frequency: 1200, delay: 0, duration: 0.04, gain: 0.4 }],
+    win: [
+      { type: 'sine', frequency: 523.25, delay: 0, duration: 1.2, gain: 0.4 },
+      { type: 'sine', frequency: 659.25, delay: 0.05, duration: 1.2, gain: 0.35 },
+      { type: 'sine', frequency: 783.99, delay: 0.1, duration: 1.2, gain: 0.3 },
+    ],
+  },
+];
+
+export const DEFAULT_SOUND: SoundPreferences = { pack: 'clasico', volume: 1, muted: false };
+
+// Preferencias completas, p. ej. al cargar una sesión anterior
+export const normalizeSoundPreferences = (stored?: Partial<SoundPreferences>): SoundPreferences => ({
+  pack: stored?.pack && SOUND_PACKS.some(pack => pack.id === stored.pack) ? stored.pack : DEFAULT_SOUND.pack,
+  volume: typeof stored?.volume === 'number' && Number.isFinite(stored.volume)
+    ? Math.min(1, Math.max(0, stored.volume))
+    : DEFAULT_SOUND.volume,
+  muted: stored?.muted === true,
+});
+
+const MIN_TICK_INTERVAL = 0.025; // Segundos entre ticks para que a alta velocidad no suene como un zumbido
+
+export interface SoundEngine {
+  unlock: () => void; // Llamar desde un clic: los navegadores no permiten audio sin interacción
+  configure: (preferences: SoundPreferences) => void;
+  tick: (volume: number) => void;
+  win: (volume: number) => void;
+}
+
+// Motor de sonido: crea el AudioContext al primer uso y toca los sonidos del paquete elegido
+export const createSoundEngine = (): SoundEngine => {
+  let context: AudioContext | null = null;
+  let preferences = DEFAULT_SOUND;
+  let pack = SOUND_PACKS[0];
+  let lastTick = 0;
+
+  // AudioContext activo, o null si el navegador no tiene Web Audio
+  const ensureContext = (): Promise<AudioContext> | null => {
+    if (!context) {
+      if (typeof AudioContext === 'undefined') return null;
+      context = new AudioContext();
+    }
+    const ctx = context;
+    return ctx.state === 'running' ? Promise.resolve(ctx) : ctx.resume().then(() => ctx);
+  };
+
+  // Programar las notas de un sonido con una envolvente corta para evitar chasquidos
+  const scheduleTones = (ctx: AudioContext, tones: Tone[], level: number) => {
+    const start = ctx.currentTime;
+    for (const tone of tones) {
+      const at = start + tone.delay;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = tone.type;
+      oscillator.frequency.setValueAtTime(tone.frequency, at);
+      if (tone.endFrequency) {
+        oscillator.frequency.exponentialRampToValueAtTime(tone.endFrequency, at + tone.duration);
+      }
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(tone.gain * level, at + 0.005);
+      gain.gain.exponentialRampToValueAtTime(0.0001, at + tone.duration);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(at);
+      oscillator.stop(at + tone.duration + 0.02);
+    }
+  };
+
+  // Tocar un sonido al volumen indicado por el volumen general
+  const playTones = (tones: Tone[], volume: number) => {
+    const level = preferences.muted ? 0 : volume * preferences.volume;
+    if (level <= 0) return;
+    ensureContext()
+      ?.then(ctx => scheduleTones(ctx, tones, level))
+      .catch(error => console.error('No se pudo reproducir el sonido', error));
+  };
+
+  return {
+    unlock: () => {
+      ensureContext()?.catch(error => console.error('No se pudo activar el audio', error));
+    },
+    configure: (next) => {
+      preferences = next;
+      pack = SOUND_PACKS.find(p => p.id === next.pack) ?? SOUND_PACKS[0];
+    },
+    tick: (volume) => {
+      const now = context?.currentTime ?? 0;
+      if (context && now - lastTick < MIN_TICK_INTERVAL) return;
+      lastTick = now;
+      playTones(pack.tick, volume);
+    },
+    win: (volume) => playTones(pack.win, volume),
+  };
+};
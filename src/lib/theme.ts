@@ -0,0 +1,105 @@
+import type { CSSProperties } from 'react';
+import type { Theme, WheelColor } from '../types';
+import { LocalizedError, type MessageKey } from './i18n';
+
+// Aspecto original de la ruleta de COPEBA
+export const DEFAULT_THEME: Theme = {
+  title: 'RULETA',
+  centerText: 'COPEBA, R.L.',
+  logo: null,
+  background: '/images/fondo1.jpg',
+  palette: [
+    { fill: '#009900', text: '#ffffff' },
+    { fill: '#fef701', text: '#065f46' },
+    { fill: '#ffffff', text: '#065f46' },
+  ],
+  fontFamily: '',
+};
+
+// Tipografías disponibles sin descargar nada; '' usa la del navegador
+export const FONT_OPTIONS: { label: MessageKey; value: string }[] = [
+  { label: 'theme.fonts.default', value: '' },
+  { label: 'theme.fonts.sans', value: 'Arial, Helvetica, sans-serif' },
+  { label: 'theme.fonts.serif', value: 'Georgia, "Times New Roman", serif' },
+  { label: 'theme.fonts.rounded', value: '"Trebuchet MS", Verdana, sans-serif' },
+  { label: 'theme.fonts.impact', value: 'Impact, "Arial Black", sans-serif' },
+  { label: 'theme.fonts.mono', value: '"Courier New", monospace' },
+];
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const MAX_PALETTE = 12;
+
+// Color en formato #rrggbb, el que aceptan los selectores de color
+const normalizeColor = (value: unknown, fallback: string): string => {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value.trim())) return fallback;
+  const hex = value.trim().toLowerCase();
+  return hex.length === 4 ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}` : hex;
+};
+
+// Texto no vacío o el valor por defecto
+const textOr = (value: unknown, fallback: string): string => {
+  return typeof value === 'string' && value.trim().length > 0 ? value : fallback;
+};
+
+// Imagen opcional: null si falta o no es texto
+const imageOr = (value: unknown, fallback: string | null): string | null => {
+  if (value === null) return null;
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : fallback;
+};
+
+// Tema completo a partir de datos guardados o importados, con los valores por defecto para lo que falte
+export const normalizeTheme = (data?: Partial<Record<keyof Theme, unknown>>): Theme => {
+  const palette = Array.isArray(data?.palette)
+    ? data.palette.slice(0, MAX_PALETTE).map((color: Partial<WheelColor> | undefined, i: number): WheelColor => {
+        const fallback = DEFAULT_THEME.palette[i % DEFAULT_THEME.palette.length];
+        return { fill: normalizeColor(color?.fill, fallback.fill), text: normalizeColor(color?.text, fallback.text) };
+      })
+    : [];
+  return {
+    title: textOr(data?.title, DEFAULT_THEME.title),
+    centerText: typeof data?.centerText === 'string' ? data.centerText : DEFAULT_THEME.centerText,
+    logo: imageOr(data?.logo, DEFAULT_THEME.logo),
+    background: imageOr(data?.background, DEFAULT_THEME.background),
+    palette: palette.length > 0 ? palette : DEFAULT_THEME.palette,
+    fontFamily: typeof data?.fontFamily === 'string' ? data.fontFamily : DEFAULT_THEME.fontFamily,
+  };
+};
+
+// Leer un archivo de tema en JSON
+export const parseTheme = (text: string): Theme => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('theme.errors.json');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new LocalizedError('theme.errors.format');
+  }
+  return normalizeTheme(data as Partial<Record<keyof Theme, unknown>>);
+};
+
+// Convertir una imagen subida en data URL para guardarla con la sesión
+export const readImageFile = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    if (!file.type.startsWith('image/')) {
+      reject(new LocalizedError('theme.errors.image'));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+// Estilos de la página: fondo, tipografía y colores del borde y centro de la ruleta
+export const themeStyle = (theme: Theme): CSSProperties => {
+  const [rim, center = rim] = theme.palette;
+  return {
+    backgroundImage: theme.background ? `url("${theme.background}")` : 'none',
+    fontFamily: theme.fontFamily || undefined,
+    '--wheel-rim': rim.fill,
+    '--wheel-center': center.fill,
+  } as CSSProperties;
+};
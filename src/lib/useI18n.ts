@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { Locale, MessageKey, MessageParams } from './i18n';
+
+// Idioma actual y funciones de traducción y formato
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+  errorMessage: (error: unknown) => string;
+}
+
+export const I18nContext = createContext<I18n | null>(null);
+
+// Acceder al idioma desde cualquier componente dentro de I18nProvider
+export const useI18n = (): I18n => {
+  const i18n = useContext(I18nContext);
+  if (!i18n) throw new Error('useI18n debe usarse dentro de I18nProvider');
+  return i18n;
+};
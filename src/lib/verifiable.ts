@@ -0,0 +1,150 @@
+import type { Entry, VerifiableDraw, VerifiableSession, VerificationBundle } from '../types';
+import { createSeededRng, pickWeighted } from './rng';
+
+const SEED_BYTES = 32;
+
+// Bytes a texto hexadecimal
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// SHA-256 de un texto en bytes
+const sha256 = async (text: string): Promise<Uint8Array> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return new Uint8Array(digest);
+};
+
+// SHA-256 de un texto en hexadecimal
+export const sha256Hex = async (text: string): Promise<string> => {
+  return toHex(await sha256(text));
+};
+
+// Nueva semilla aleatoria de 256 bits en hexadecimal
+export const generateSeed = (): string => {
+  return toHex(crypto.getRandomValues(new Uint8Array(SEED_BYTES)));
+};
+
+// Huella de la lista de participantes, una opción por línea ("id;nombre;boletos" según los datos presentes)
+export const hashParticipants = (participants: string[], weights?: number[], ids?: string[]): Promise<string> => {
+  const lines = participants.map((participant, i) => {
+    const parts = [participant];
+    if (ids) parts.unshift(ids[i]);
+    if (weights) parts.push(String(weights[i]));
+    return parts.join(';');
+  });
+  return sha256Hex(lines.join('\n'));
+};
+
+// Crear una sesión verificable sobre las opciones disponibles
+export const createVerifiableSession = async (entries: Entry[]): Promise<VerifiableSession> => {
+  const seed = generateSeed();
+  const participants = entries.map(entry => entry.value);
+  const ids = entries.map(entry => entry.id);
+  // Sin boletos múltiples se conserva el formato sin pesos
+  const weights = entries.some(entry => entry.weight !== 1) ? entries.map(entry => entry.weight) : undefined;
+  return {
+    seed,
+    commitment: await sha256Hex(seed),
+    listHash: await hashParticipants(participants, weights, ids),
+    participants,
+    weights,
+    ids,
+    draws: [],
+    revealed: false,
+  };
+};
+
+// Índice ganador del giro número drawNumber: sfc32 sembrado con SHA-256("semilla:número"),
+// elegido con probabilidad proporcional al peso de cada opción del pool
+export const deriveDrawIndex = async (seed: string, drawNumber: number, poolWeights: number[]): Promise<number> => {
+  const digest = await sha256(`${seed}:${drawNumber}`);
+  const view = new DataView(digest.buffer);
+  const rng = createSeededRng(
+    Uint32Array.of(view.getUint32(0), view.getUint32(4), view.getUint32(8), view.getUint32(12))
+  );
+  return pickWeighted(rng, poolWeights);
+};
+
+// Participantes del comprobante o de la sesión verificable
+type ParticipantList = Pick<VerificationBundle, 'participants' | 'weights' | 'ids'>;
+
+// Posiciones de los participantes que siguen en juego con sus pesos: los ganadores anteriores salen del pool.
+// Con identificadores se excluye solo al ganador; sin ellos, a todos los que tienen su nombre.
+export const remainingPool = (list: ParticipantList, draws: VerifiableDraw[]): { indices: number[]; weights: number[] } => {
+  const winnerIds = new Set(draws.map(draw => draw.winnerId));
+  const winnerNames = new Set(draws.map(draw => draw.winner));
+  const pool = { indices: [] as number[], weights: [] as number[] };
+  list.participants.forEach((participant, i) => {
+    if (list.ids ? winnerIds.has(list.ids[i]) : winnerNames.has(participant)) return;
+    pool.indices.push(i);
+    pool.weights.push(list.weights?.[i] ?? 1);
+  });
+  return pool;
+};
+
+// Siguiente giro verificable: devuelve el ganador y la sesión con el giro agregado
+export const appendDraw = async (
+  session: VerifiableSession
+): Promise<{ winner: VerifiableDraw; session: VerifiableSession } | null> => {
+  const pool = remainingPool(session, session.draws);
+  if (pool.indices.length === 0) return null;
+
+  const drawNumber = session.draws.length + 1;
+  const index = pool.indices[await deriveDrawIndex(session.seed, drawNumber, pool.weights)];
+  const winner: VerifiableDraw = {
+    drawNumber,
+    winnerId: session.ids?.[index],
+    winner: session.participants[index],
+    poolSize: pool.indices.length,
+  };
+  return { winner, session: { ...session, draws: [...session.draws, winner] } };
+};
+
+// Comprobante publicable una vez revelada la semilla
+export const createBundle = (session: VerifiableSession): VerificationBundle => ({
+  version: 1,
+  commitment: session.commitment,
+  seed: session.seed,
+  listHash: session.listHash,
+  participants: session.participants,
+  weights: session.weights,
+  ids: session.ids,
+  draws: session.draws,
+});
+
+// Resultado de recalcular un giro del comprobante
+export interface DrawCheck {
+  drawNumber: number;
+  expected: string;
+  recorded: string;
+  ok: boolean;
+}
+
+// Resultado completo de la verificación
+export interface BundleCheck {
+  commitmentOk: boolean;
+  listHashOk: boolean;
+  draws: DrawCheck[];
+}
+
+// Recalcular todos los giros del comprobante y compararlos con lo registrado
+export const verifyBundle = async (bundle: VerificationBundle): Promise<BundleCheck> => {
+  const draws: DrawCheck[] = [];
+  for (let i = 0; i < bundle.draws.length; i++) {
+    const recorded = bundle.draws[i];
+    const pool = remainingPool(bundle, bundle.draws.slice(0, i));
+    const index = pool.indices.length > 0
+      ? pool.indices[await deriveDrawIndex(bundle.seed, recorded.drawNumber, pool.weights)]
+      : -1;
+    const expected = index >= 0 ? bundle.participants[index] : '';
+    const ok = index >= 0 && (bundle.ids
+      ? bundle.ids[index] === recorded.winnerId
+      : expected === recorded.winner);
+    draws.push({ drawNumber: recorded.drawNumber, expected, recorded: recorded.winner, ok });
+  }
+  return {
+    commitmentOk: (await sha256Hex(bundle.seed)) === bundle.commitment,
+    listHashOk: (await hashParticipants(bundle.participants, bundle.weights, bundle.ids)) === bundle.listHash,
+    draws,
+  };
+};
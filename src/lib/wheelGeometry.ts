@@ -0,0 +1,84 @@
+// Rebanada de la ruleta: una opción o un grupo de opciones consecutivas
+export interface WheelSegment {
+  label: string;
+  start: number; // Índice de la primera opción del grupo
+  count: number; // Cantidad de opciones del grupo
+  startAngle: number; // Ángulo inicial en sentido horario desde arriba
+  sweep: number; // Tamaño de la rebanada en grados, proporcional a los boletos
+}
+
+// Construir las rebanadas: una por opción si caben, si no se agrupan en `divisions` grupos
+export const buildWheelSegments = (
+  options: string[],
+  weights: number[],
+  maxLabelled: number,
+  divisions: number
+): WheelSegment[] => {
+  const total = options.length;
+  const groups: { label: string; start: number; count: number }[] = [];
+  if (total <= maxLabelled) {
+    options.forEach((label, index) => groups.push({ label, start: index, count: 1 }));
+  } else {
+    // Nunca más rebanadas que opciones: sobrarían grupos vacíos con el mismo inicio
+    const count = Math.min(divisions, total);
+    for (let k = 0; k < count; k++) {
+      const start = Math.ceil((k * total) / count);
+      const end = Math.ceil(((k + 1) * total) / count);
+      groups.push({ label: `${start + 1}–${end}`, start, count: end - start });
+    }
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let angle = 0;
+  return groups.map(group => {
+    let weight = 0;
+    for (let i = group.start; i < group.start + group.count; i++) weight += weights[i];
+    const sweep = (weight / totalWeight) * 360;
+    const segment = { ...group, startAngle: angle, sweep };
+    angle += sweep;
+    return segment;
+  });
+};
+
+// Rebanada que contiene la opción en la posición optionIndex
+export const segmentIndexFor = (optionIndex: number, totalOptions: number, segmentCount: number): number => {
+  if (segmentCount === totalOptions) return optionIndex;
+  return Math.floor((optionIndex * segmentCount) / totalOptions);
+};
+
+// Rotación final para que la flecha (arriba) quede sobre la rebanada indicada.
+// offset es la posición dentro de la rebanada entre 0 y 1 (0.5 es el centro).
+export const calculateRotationForSegment = (
+  currentRotation: number,
+  segment: WheelSegment,
+  fullSpins: number,
+  offset: number
+): number => {
+  const targetAngle = segment.startAngle + offset * segment.sweep;
+  // Con la ruleta girada R grados, bajo la flecha queda el ángulo -R de la ruleta
+  const desired = (360 - targetAngle) % 360;
+  const current = ((currentRotation % 360) + 360) % 360;
+  const delta = (desired - current + 360) % 360;
+  return currentRotation + fullSpins * 360 + delta;
+};
+
+// Función de easing para animación suave
+export const easeOut = (t: number): number => {
+  return 1 - Math.pow(1 - t, 3);
+};
+
+// Rebanada que queda bajo la flecha (arriba) con la ruleta girada `rotation` grados
+export const segmentUnderPointer = (segments: WheelSegment[], rotation: number): number => {
+  const angle = ((-rotation % 360) + 360) % 360;
+  let low = 0;
+  let high = segments.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (segments[mid].startAngle <= angle) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
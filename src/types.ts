@@ -0,0 +1,189 @@
+// Interfaz para definir una opción con su identificador, valor e índice
+export interface Option {
+  id: string;
+  value: string;
+  index: number;
+}
+
+// Participante cargado en la ruleta, con columnas adicionales si viene de un archivo
+export interface Entry {
+  id: string; // Identificador único, distingue participantes con el mismo nombre
+  value: string;
+  weight: number; // Cantidad de boletos, la probabilidad es proporcional
+  memberId?: string; // Número de socio, usado para detectar repetidos
+  category?: string; // Sucursal, agencia u otro grupo del participante
+  fields?: Record<string, string>;
+}
+
+// Premio del catálogo; se sortean en el orden de la lista
+export interface Prize {
+  id: string;
+  name: string;
+  quantity: number;
+  settings?: Partial<SpinSettings>; // Ajustes propios del premio, sobre los del evento
+}
+
+// Ritmo y efectos de un giro; se pueden ajustar por premio
+export interface SpinSettings {
+  spinDuration: number; // Duración del giro en milisegundos
+  minSpins: number; // Vueltas completas mínimas antes de detenerse
+  optionChangeSpeed: number; // Milisegundos entre cambios de la opción mostrada al arrancar
+  confettiParticles: number; // Cantidad de confeti al mostrar el ganador, 0 lo desactiva
+  spinVolume: number; // Volumen del sonido de giro, entre 0 y 1
+  winVolume: number; // Volumen del sonido de ganador, entre 0 y 1
+}
+
+// Ajustes del evento completo
+export interface EventSettings extends SpinSettings {
+  divisions: number; // Rebanadas de la ruleta cuando las opciones no caben una por una
+}
+
+// Registro de un giro terminado
+export interface DrawRecord {
+  sequence: number; // Número de giro dentro de la sesión
+  timestamp: number; // Momento en que se conoció el ganador
+  winnerId: string;
+  winner: string;
+  originalIndex: number; // Posición del ganador en la lista completa
+  poolSize: number; // Opciones disponibles al momento del giro
+  redraw: boolean; // El ganador ya había salido antes en la sesión
+  absent?: boolean; // El ganador no estaba presente: sigue excluido pero no se lleva el premio
+  knockedOut?: boolean; // Modo último en pie: la flecha lo dejó fuera de la ronda, no ganó
+  survivor?: boolean; // Modo último en pie: ganó por ser el único que quedaba
+  category?: string; // Categoría del ganador, para controlar los cupos
+  predefined?: boolean; // El ganador lo fijó el operador en lugar de la ruleta
+  prizeId?: string; // Premio asignado a este giro
+  prizeName?: string;
+}
+
+// Giro realizado en modo verificable
+export interface VerifiableDraw {
+  drawNumber: number;
+  winnerId?: string;
+  winner: string;
+  poolSize: number;
+}
+
+// Modo verificable: semilla comprometida antes del evento y revelada al final
+export interface VerifiableSession {
+  seed: string;
+  commitment: string; // SHA-256 de la semilla, publicado antes de girar
+  listHash: string; // SHA-256 de la lista de participantes congelada
+  participants: string[];
+  weights?: number[]; // Boletos de cada participante; si falta, todos valen 1
+  ids?: string[]; // Identificadores de los participantes; si falta, se comparan los nombres
+  draws: VerifiableDraw[];
+  revealed: boolean;
+}
+
+// Comprobante que se publica para que cualquiera pueda recalcular los ganadores
+export interface VerificationBundle {
+  version: 1;
+  commitment: string;
+  seed: string;
+  listHash: string;
+  participants: string[];
+  weights?: number[];
+  ids?: string[];
+  draws: VerifiableDraw[];
+}
+
+// Cómo se aplica el resultado de un giro:
+// eliminateWinner saca al ganador de la ruleta, keepWinner lo deja participando y
+// lastStanding elimina a cada uno donde cae la flecha hasta que el último que queda gana
+export type GameMode = 'eliminateWinner' | 'keepWinner' | 'lastStanding';
+
+// Filtro y cupos por categoría que se aplican a los giros
+export interface CategoryRules {
+  filter: string[]; // Categorías que entran en el próximo giro; vacío incluye a todas ('' son los sin categoría)
+  maxWinners: number | null; // Máximo de ganadores por categoría, o null sin límite
+}
+
+// Cambios de configuración que quedan en el registro de auditoría
+export type AuditAction =
+  | 'entriesAdded'
+  | 'entryRemoved'
+  | 'entriesCleared'
+  | 'eliminatedRestored'
+  | 'prizesChanged'
+  | 'settingsChanged'
+  | 'gameModeChanged'
+  | 'categoryRulesChanged'
+  | 'predefinedWinnerSet'
+  | 'verifiableActivated'
+  | 'seedRevealed'
+  | 'drawUndone'
+  | 'absentMarked'
+  | 'locked'
+  | 'unlocked'
+  | 'unlockFailed'
+  | 'scheduledSpinRun'
+  | 'scheduledSpinSkipped';
+
+// Evento del registro de auditoría, encadenado al anterior por su hash
+export interface AuditEvent {
+  sequence: number;
+  timestamp: number;
+  action: AuditAction;
+  details: Record<string, string | number>; // Datos del cambio, también usados al mostrarlo
+  previousHash: string; // Hash del evento anterior, o ceros en el primero
+  hash: string; // SHA-256 del evento completo, incluido previousHash
+}
+
+// Modo sorteo público: la configuración queda bloqueada hasta ingresar el PIN
+export interface PublicLock {
+  pinHash: string; // SHA-256 de "sal:PIN"; el PIN no se guarda
+  salt: string;
+  lockedAt: number;
+}
+
+// Giro programado para una hora; la cuenta regresiva se muestra durante los últimos segundos
+export interface ScheduledSpin {
+  id: string;
+  at: number; // Momento del giro (Date.now())
+  countdown: number; // Segundos de cuenta regresiva antes del giro; la lista se bloquea al empezar
+}
+
+// Preferencias de sonido del operador
+export interface SoundPreferences {
+  pack: string; // Identificador del paquete de sonidos
+  volume: number; // Volumen general entre 0 y 1
+  muted: boolean;
+}
+
+// Color de una rebanada y del texto escrito sobre ella
+export interface WheelColor {
+  fill: string;
+  text: string;
+}
+
+// Marca y aspecto del evento
+export interface Theme {
+  title: string; // Título sobre la ruleta
+  centerText: string; // Texto del centro cuando no hay logo
+  logo: string | null; // Imagen del centro (URL o data URL)
+  background: string | null; // Imagen de fondo (URL o data URL)
+  palette: WheelColor[]; // Colores de las rebanadas, en orden
+  fontFamily: string;
+}
+
+// Estado del sorteo que se guarda para poder recuperarlo tras una recarga
+export interface SessionSnapshot {
+  version: 1;
+  savedAt: number;
+  allOptions: Entry[];
+  eliminatedIds: string[];
+  winner: Option | null;
+  predefinedWinner: string; // Identificador del ganador predefinido
+  history: DrawRecord[];
+  verifiable: VerifiableSession | null;
+  prizes: Prize[];
+  gameMode: GameMode;
+  categoryRules: CategoryRules;
+  auditTrail: AuditEvent[];
+  publicLock: PublicLock | null;
+  schedule: ScheduledSpin[]; // Giros programados en orden
+  settings: EventSettings;
+  theme: Theme;
+  sound: SoundPreferences;
+}
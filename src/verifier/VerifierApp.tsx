@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { ShieldCheck, CheckCircle2, XCircle, Upload } from 'lucide-react';
+import type { VerificationBundle } from '../types';
+import { verifyBundle, type BundleCheck } from '../lib/verifiable';
+import { LocalizedError } from '../lib/i18n';
+import { useI18n } from '../lib/useI18n';
+import LanguageSwitcher from '../components/LanguageSwitcher';
+
+// Validar que el JSON pegado tenga la forma de un comprobante
+const parseBundle = (text: string): VerificationBundle => {
+  const data = JSON.parse(text);
+  if (
+    data?.version !== 1 ||
+    typeof data.seed !== 'string' ||
+    typeof data.commitment !== 'string' ||
+    typeof data.listHash !== 'string' ||
+    !Array.isArray(data.participants) ||
+    !Array.isArray(data.draws) ||
+    (data.weights !== undefined && !Array.isArray(data.weights)) ||
+    (data.ids !== undefined && !Array.isArray(data.ids))
+  ) {
+    throw new LocalizedError('verifier.invalidBundle');
+  }
+  return data as VerificationBundle;
+};
+
+// Icono de resultado de una comprobación
+function CheckMark({ ok }: { ok: boolean }) {
+  return ok
+    ? <CheckCircle2 size={18} className="text-green-600 inline" />
+    : <XCircle size={18} className="text-red-600 inline" />;
+}
+
+// Página independiente para recalcular los ganadores a partir del comprobante
+function VerifierApp() {
+  const { t, errorMessage } = useI18n();
+  const [bundleText, setBundleText] = useState(''); // JSON del comprobante
+  const [result, setResult] = useState<BundleCheck | null>(null); // Resultado de la verificación
+  const [error, setError] = useState(''); // Error de lectura del comprobante
+
+  // Cargar el comprobante desde un archivo
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBundleText(await file.text());
+    setResult(null);
+  };
+
+  // Verificar el comprobante pegado
+  const verify = async () => {
+    setError('');
+    setResult(null);
+    try {
+      setResult(await verifyBundle(parseBundle(bundleText)));
+    } catch (e) {
+      setError(errorMessage(e));
+    }
+  };
+
+  const allOk = result !== null && result.commitmentOk && result.listHashOk && result.draws.every(draw => draw.ok);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <LanguageSwitcher className="fixed top-4 right-4" />
+      <div className="max-w-3xl mx-auto bg-white p-6 rounded-lg shadow-lg">
+        <h1 className="text-3xl font-extrabold text-green-800 mb-2 flex items-center gap-2">
+          <ShieldCheck size={32} />
+          {t('verifier.title')}
+        </h1>
+        <p className="text-gray-600 mb-4">
+          {t('verifier.description')}
+        </p>
+
+        <label className="flex items-center gap-2 mb-2 text-sm text-blue-700 cursor-pointer">
+          <Upload size={18} />
+          {t('verifier.loadFile')}
+          <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => loadFile(e.target.files?.[0])} />
+        </label>
+        <textarea
+          value={bundleText}
+          onChange={(e) => setBundleText(e.target.value)}
+          placeholder={t('verifier.placeholder')}
+          className="w-full h-40 p-2 border rounded-lg mb-4 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          onClick={verify}
+          disabled={bundleText.trim().length === 0}
+          className="w-full py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {t('verifier.verify')}
+        </button>
+
+        {error && <p className="mt-4 text-red-600 font-semibold">{error}</p>}
+
+        {result && (
+          <div className="mt-6">
+            <p className={`text-xl font-bold mb-4 ${allOk ? 'text-green-700' : 'text-red-700'}`}>
+              {allOk ? t('verifier.ok') : t('verifier.mismatch')}
+            </p>
+            <ul className="mb-4 space-y-1">
+              <li><CheckMark ok={result.commitmentOk} /> {t('verifier.commitmentOk')}</li>
+              <li><CheckMark ok={result.listHashOk} /> {t('verifier.listHashOk')}</li>
+            </ul>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">{t('verifier.draw')}</th>
+                  <th className="py-2">{t('verifier.recorded')}</th>
+                  <th className="py-2">{t('verifier.expected')}</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.draws.map(draw => (
+                  <tr key={draw.drawNumber} className="border-b">
+                    <td className="py-2">{draw.drawNumber}</td>
+                    <td className="py-2">{draw.recorded}</td>
+                    <td className="py-2">{draw.expected}</td>
+                    <td className="py-2"><CheckMark ok={draw.ok} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VerifierApp;
@@ -0,0 +1,13 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import VerifierApp from './VerifierApp.tsx';
+import I18nProvider from '../components/I18nProvider';
+import '../index.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <I18nProvider>
+      <VerifierApp />
+    </I18nProvider>
+  </StrictMode>
+);
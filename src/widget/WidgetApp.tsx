@@ -0,0 +1,271 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { Entry, EventSettings, Theme } from '../types';
+import type { SpinPlan } from '../lib/presenter';
+import { createDrawEngine, drawPool, type DrawState, type DrawStep } from '../lib/drawEngine';
+import { createCryptoRng, randomInt, randomFloat } from '../lib/rng';
+import { buildWheelSegments, segmentIndexFor, calculateRotationForSegment, easeOut } from '../lib/wheelGeometry';
+import { triggerConfetti } from '../lib/celebration';
+import { currentPrize, isWinningRecord } from '../lib/prizes';
+import { drawOutcome, normalizeGameMode, OUTCOME_MESSAGES } from '../lib/gameModes';
+import { DEFAULT_SETTINGS, normalizeSettings } from '../lib/settings';
+import { DEFAULT_THEME, normalizeTheme, themeStyle } from '../lib/theme';
+import {
+  EMBED_PROTOCOL,
+  parseEmbedCommand,
+  postEmbedEvent,
+  toEmbedWinner,
+  toEntries,
+  toPrizes,
+  type EmbedCommand,
+  type EmbedErrorCode,
+  type EmbedEvent,
+  type EmbedState,
+} from '../lib/embed';
+import Wheel from '../components/Wheel';
+import WheelCenter from '../components/WheelCenter';
+import { useI18n } from '../lib/useI18n';
+
+// Parámetros de widget.html: origen de la página anfitriona y si se puede girar con un clic
+const searchParams = new URLSearchParams(window.location.search);
+const HOST_ORIGIN = searchParams.get('origin');
+const CLICK_TO_SPIN = searchParams.get('controls') !== '0';
+
+const MAX_LABELLED_SEGMENTS = 60; // Máximo de rebanadas con nombre visible
+
+// Generador aleatorio para los giros y la animación
+const cryptoRng = createCryptoRng();
+
+// Reglas del sorteo de la ruleta insertada
+const engine = createDrawEngine({}, cryptoRng);
+
+// Rebanadas de la ruleta para una lista de participantes
+const segmentsFor = (entries: Entry[], divisions: number) => {
+  return buildWheelSegments(entries.map(entry => entry.value), entries.map(entry => entry.weight), MAX_LABELLED_SEGMENTS, divisions);
+};
+
+// Resumen del sorteo para la página anfitriona
+const summarize = (state: DrawState): EmbedState => ({
+  participants: state.entries.length,
+  remaining: drawPool(state).length,
+  history: state.history,
+});
+
+// Ruleta para insertar en otra página: se controla con postMessage y avisa cada giro y cada ganador
+function WidgetApp() {
+  const { t, setLocale } = useI18n();
+  const [state, setState] = useState<DrawState>(engine.snapshot); // Estado del motor después del último cambio
+  const [settings, setSettings] = useState<EventSettings>(DEFAULT_SETTINGS);
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+  const [rotation, setRotation] = useState(0);
+  const [spin, setSpin] = useState<SpinPlan | null>(null); // Giro en curso
+  const [wheelSnapshot, setWheelSnapshot] = useState<Entry[] | null>(null); // Rebanadas del giro hasta cerrar el resultado
+  const [result, setResult] = useState<DrawStep | null>(null); // Resultado mostrado
+  const animationRef = useRef<number>();
+  // Copias síncronas para comandos que llegan en el mismo tick, antes de que React vuelva a dibujar
+  const spinningRef = useRef(false); // Hay un giro en curso
+  const settingsRef = useRef<EventSettings>(DEFAULT_SETTINGS);
+  const rotationRef = useRef(0); // Rotación en reposo al terminar el último giro
+
+  const pool = useMemo(() => drawPool(state), [state]);
+  const wheelEntries = wheelSnapshot ?? pool;
+  const segments = useMemo(() => segmentsFor(wheelEntries, settings.divisions), [wheelEntries, settings.divisions]);
+  const activePrize = useMemo(() => currentPrize(state.prizes, state.history), [state]);
+
+  // Enviar un evento a la página que contiene al iframe
+  const emit = (event: EmbedEvent) => {
+    postEmbedEvent(window.parent, HOST_ORIGIN ?? '*', event);
+  };
+
+  // Avisar que un comando no se pudo cumplir
+  const fail = (code: EmbedErrorCode, command: EmbedCommand['type'] | undefined, requestId?: string) => {
+    emit({ type: 'error', code, message: t(`widget.errors.${code}`), command, requestId });
+  };
+
+  // Publicar el estado del motor en la pantalla
+  const refresh = () => {
+    const next = engine.snapshot();
+    setState(next);
+    setWheelSnapshot(null);
+    setResult(null);
+    return next;
+  };
+
+  // Girar: el motor elige al participante y la ruleta se detiene en su rebanada
+  const spinWheel = (requestId?: string) => {
+    if (spinningRef.current) return fail('busy', 'spin', requestId);
+    const before = engine.snapshot();
+    const spinPool = drawPool(before);
+    const prizeName = currentPrize(before.prizes, before.history)?.prize.name ?? null;
+    const step = engine.draw();
+    if (!step) return fail('cannotSpin', 'spin', requestId);
+    const spinSettings = settingsRef.current;
+    const from = rotationRef.current;
+    spinningRef.current = true;
+
+    // La flecha cae en el primer registro: el ganador, o el que queda fuera en último en pie
+    const spinSegments = segmentsFor(spinPool, spinSettings.divisions);
+    const poolIndex = spinPool.findIndex(entry => entry.id === step.records[0].winnerId);
+    const segment = spinSegments[segmentIndexFor(poolIndex, spinPool.length, spinSegments.length)];
+    const fullSpins = randomInt(cryptoRng, 8) + spinSettings.minSpins;
+    const to = calculateRotationForSegment(from, segment, fullSpins, 0.1 + randomFloat(cryptoRng) * 0.8);
+
+    setResult(null);
+    setWheelSnapshot(spinPool);
+    setSpin({ from, to, startedAt: Date.now(), duration: spinSettings.spinDuration });
+    emit({ type: 'spin-start', poolSize: spinPool.length, prize: prizeName, requestId });
+
+    window.setTimeout(() => {
+      const next = engine.snapshot();
+      spinningRef.current = false;
+      rotationRef.current = to;
+      setSpin(null);
+      setRotation(to);
+      setState(next);
+      setResult(step);
+      emit({
+        type: 'winner',
+        winner: toEmbedWinner(step.winner),
+        outcome: drawOutcome(step.records[step.records.length - 1]),
+        prize: step.records[step.records.length - 1].prizeName ?? null,
+        records: step.records,
+        state: summarize(next),
+        requestId,
+      });
+      if (step.records.some(isWinningRecord)) triggerConfetti(spinSettings.confettiParticles);
+    }, spinSettings.spinDuration);
+  };
+
+  // Ejecutar un comando de la página anfitriona
+  const runCommand = (command: EmbedCommand) => {
+    const { requestId } = command;
+    switch (command.type) {
+      case 'load':
+        if (spinningRef.current) return fail('busy', command.type, requestId);
+        engine.load(toEntries(command.participants));
+        emit({ type: 'loaded', state: summarize(refresh()), requestId });
+        return;
+      case 'configure':
+        if (spinningRef.current) return fail('busy', command.type, requestId);
+        if (command.settings) {
+          settingsRef.current = normalizeSettings({ ...settingsRef.current, ...command.settings });
+          setSettings(settingsRef.current);
+        }
+        if (command.theme) setTheme(prev => normalizeTheme({ ...prev, ...command.theme }));
+        if (command.gameMode) engine.configure({ gameMode: normalizeGameMode(command.gameMode) });
+        if (Array.isArray(command.prizes)) engine.configure({ prizes: toPrizes(command.prizes) });
+        if (command.locale === 'es' || command.locale === 'en') setLocale(command.locale);
+        refresh();
+        emit({ type: 'configured', requestId });
+        return;
+      case 'spin':
+        spinWheel(requestId);
+        return;
+      case 'reset':
+        if (spinningRef.current) return fail('busy', command.type, requestId);
+        engine.load([]);
+        engine.configure({ prizes: [] });
+        emit({ type: 'state', state: summarize(refresh()), requestId });
+        return;
+      case 'restore':
+        if (spinningRef.current) return fail('busy', command.type, requestId);
+        engine.restore();
+        emit({ type: 'state', state: summarize(refresh()), requestId });
+        return;
+      case 'getState':
+        // El motor ya aplicó el giro en curso: no adelantar el ganador antes del evento winner
+        if (spinningRef.current) return fail('busy', command.type, requestId);
+        emit({ type: 'state', state: summarize(engine.snapshot()), requestId });
+        return;
+    }
+  };
+  const latestHandlers = useRef({ runCommand, fail });
+  latestHandlers.current = { runCommand, fail };
+
+  // Escuchar solo a la página que contiene al iframe y, si se indicó, solo a su origen
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || (HOST_ORIGIN && event.origin !== HOST_ORIGIN)) return;
+      const command = parseEmbedCommand(event.data);
+      if (command) {
+        latestHandlers.current.runCommand(command);
+      } else if (event.data?.protocol === EMBED_PROTOCOL) {
+        latestHandlers.current.fail('invalidCommand', event.data.type, event.data.requestId);
+      }
+    };
+    window.addEventListener('message', onMessage);
+    postEmbedEvent(window.parent, HOST_ORIGIN ?? '*', { type: 'ready' });
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  // Animar el giro en curso con la misma curva que la consola
+  useEffect(() => {
+    if (!spin) return;
+    const frame = () => {
+      const progress = Math.min((Date.now() - spin.startedAt) / spin.duration, 1);
+      setRotation(spin.from + (spin.to - spin.from) * easeOut(progress));
+      if (progress < 1) {
+        animationRef.current = requestAnimationFrame(frame);
+      }
+    };
+    animationRef.current = requestAnimationFrame(frame);
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    };
+  }, [spin]);
+
+  // Cerrar el resultado y redibujar la ruleta sin los eliminados
+  const closeResult = () => {
+    setResult(null);
+    setWheelSnapshot(null);
+  };
+
+  const outcome = result ? drawOutcome(result.records[result.records.length - 1]) : 'winner';
+
+  return (
+    <div className="min-h-screen bg-contain bg-no-repeat bg-center p-4 flex flex-col items-center justify-center" style={themeStyle(theme)}>
+      {/* Premio que se está sorteando */}
+      {activePrize && (
+        <div className="mb-3 text-center bg-amber-400 text-amber-950 px-4 py-1 rounded-full shadow font-semibold">
+          {t('wheel.prize', { name: activePrize.prize.name, number: activePrize.winners.length + 1, quantity: activePrize.prize.quantity })}
+        </div>
+      )}
+
+      {state.entries.length === 0 ? (
+        <p className="text-center text-xl font-semibold text-green-800">{t('widget.waiting')}</p>
+      ) : (
+        <div className="relative mt-8">
+          <Wheel
+            segments={segments}
+            rotation={rotation}
+            showLabels={wheelEntries.length <= MAX_LABELLED_SEGMENTS}
+            palette={theme.palette}
+            sizeClass="w-[min(85vw,80vh)] h-[min(85vw,80vh)]"
+            onCenterClick={CLICK_TO_SPIN && !spin ? () => spinWheel() : undefined}
+          >
+            <WheelCenter theme={theme} />
+          </Wheel>
+
+          {/* Flecha indicadora */}
+          <div className="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-7">
+            <div className="arrow" />
+          </div>
+        </div>
+      )}
+
+      {/* Resultado del último giro; un clic lo cierra */}
+      {result && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center" onClick={closeResult}>
+          <div className="bg-white p-8 rounded-lg shadow-xl animate-bounce-in">
+            <h2 className="text-2xl font-bold text-green-800 mb-4">{t(OUTCOME_MESSAGES[outcome].title)}</h2>
+            <p className="text-xl mb-4">{t(OUTCOME_MESSAGES[outcome].label)} <strong>{result.winner.value}</strong></p>
+            {result.records[result.records.length - 1].prizeName && (
+              <p className="text-lg text-amber-700">{t('winner.prize')} <strong>{result.records[result.records.length - 1].prizeName}</strong></p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WidgetApp;
@@ -0,0 +1,18 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import WidgetApp from './WidgetApp.tsx';
+import I18nProvider from '../components/I18nProvider';
+import type { Locale } from '../lib/i18n';
+import '../index.css';
+
+// Idioma pedido por la página anfitriona; la ruleta insertada no cambia el idioma guardado de la consola
+const lang = new URLSearchParams(window.location.search).get('lang');
+const initialLocale: Locale | undefined = lang === 'es' || lang === 'en' ? lang : undefined;
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <I18nProvider initialLocale={initialLocale} persist={false}>
+      <WidgetApp />
+    </I18nProvider>
+  </StrictMode>
+);
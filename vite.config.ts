@@ -7,4 +7,15 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      // Página principal, pantalla del público, verificador independiente del sorteo y ruleta para insertar
+      input: {
+        main: 'index.html',
+        verificar: 'verificar.html',
+        publico: 'publico.html',
+        widget: 'widget.html',
+      },
+    },
+  },
 });